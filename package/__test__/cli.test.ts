@@ -0,0 +1,670 @@
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { Command as CliCommand } from "@effect/cli";
+import { FileSystem } from "@effect/platform";
+import { NodeContext } from "@effect/platform-node";
+import {
+	BiomeSchemaSyncLive,
+	ConfigDiscoveryLive,
+	ManagedSection,
+	ManagedSectionLive,
+	ToolDiscoveryLive,
+} from "@savvy-web/silk-effects";
+import { Effect, Layer, Logger } from "effect";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WorkspacesLive } from "workspaces-effect";
+import { parse } from "yaml";
+import { checkCommand } from "../src/cli/commands/check.js";
+import { explainCommand } from "../src/cli/commands/explain.js";
+import { initCommand } from "../src/cli/commands/init.js";
+import { uninstallCommand } from "../src/cli/commands/uninstall.js";
+import type { HookBackend } from "../src/cli/hooks.js";
+import { detectHookBackend, resolveHookBackend } from "../src/cli/hooks.js";
+import {
+	DEFAULT_CONFIG_PATH,
+	MANAGED_SECTION_BEGIN,
+	MARKDOWNLINT_CONFIG_PATH,
+	extractCiEnvVars,
+	extractConfigPath,
+	generateConfigContent,
+	hookHeader,
+	preCommitSpec,
+	prePushSpec,
+} from "../src/cli/sections.js";
+import { MARKDOWNLINT_SCHEMA, MARKDOWNLINT_TEMPLATE } from "../src/cli/templates/markdownlint.gen.js";
+import { Command } from "../src/utils/Command.js";
+import { resetWorkspaceCache } from "../src/utils/Workspace.js";
+
+// Mock workspaces-effect so the fixture directory is treated as a standalone repo.
+vi.mock("workspaces-effect", async (importOriginal) => {
+	const mod = await importOriginal<typeof import("workspaces-effect")>();
+	return {
+		...mod,
+		findWorkspaceRootSync: vi.fn(() => null),
+		getWorkspacePackagesSync: vi.fn(() => []),
+	};
+});
+
+const FIXTURE_DIR = join(import.meta.dirname, "fixtures", "cli");
+const SOURCE_INDEX = join(import.meta.dirname, "..", "src", "index.ts");
+
+/**
+ * NodeContext whose FileSystem resolves relative paths against the fixture directory.
+ *
+ * @remarks
+ * Node resolves relative paths against the real working directory, which
+ * tests can't change; `resolve()` goes through the mocked `process.cwd()`.
+ */
+const FixtureContext = Layer.effect(
+	FileSystem.FileSystem,
+	Effect.map(FileSystem.FileSystem, (fs) =>
+		FileSystem.FileSystem.of({
+			...fs,
+			exists: (path) => fs.exists(resolve(path)),
+			readFileString: (path, encoding) => fs.readFileString(resolve(path), encoding),
+			writeFileString: (path, data, options) => fs.writeFileString(resolve(path), data, options),
+			makeDirectory: (path, options) => fs.makeDirectory(resolve(path), options),
+			chmod: (path, mode) => fs.chmod(resolve(path), mode),
+			remove: (path, options) => fs.remove(resolve(path), options),
+		}),
+	),
+).pipe(Layer.provideMerge(NodeContext.layer));
+
+/** FixtureContext plus the services the CLI provides, built on it. */
+const CliContext = Layer.mergeAll(ManagedSectionLive, BiomeSchemaSyncLive, ConfigDiscoveryLive, ToolDiscoveryLive).pipe(
+	Layer.provideMerge(WorkspacesLive),
+	Layer.provideMerge(FixtureContext),
+);
+
+/**
+ * Run a CLI command with the given arguments, collecting everything it logs.
+ */
+async function runCommand<Name extends string, R, E, A>(
+	command: CliCommand.Command<Name, R, E, A>,
+	args: string[],
+	layer: Layer.Layer<R | NodeContext.NodeContext, unknown, never> = FixtureContext as never,
+): Promise<string[]> {
+	const lines: string[] = [];
+	const logger = Logger.make(({ message }) => {
+		lines.push(...(Array.isArray(message) ? message : [message]).map(String));
+	});
+
+	await CliCommand.run(command, { name: "savvy-lint", version: "0.0.0" })(["node", "savvy-lint", ...args]).pipe(
+		Effect.provide(Layer.merge(layer, Logger.replace(Logger.defaultLogger, logger))),
+		Effect.runPromise,
+	);
+
+	return lines;
+}
+
+/**
+ * Resolve a hook backend against the fixture directory and run a function with it.
+ */
+function withBackend<A>(
+	name: Parameters<typeof resolveHookBackend>[0],
+	use: (backend: HookBackend) => Effect.Effect<A, Error>,
+): Promise<A> {
+	return Effect.gen(function* () {
+		const backend = yield* resolveHookBackend(name, yield* FileSystem.FileSystem, yield* ManagedSection);
+		return yield* use(backend);
+	}).pipe(Effect.provide(CliContext), Effect.runPromise);
+}
+
+/**
+ * Read a fixture file.
+ */
+function readFixture(path: string): string {
+	return readFileSync(join(FIXTURE_DIR, path), "utf-8");
+}
+
+/**
+ * Write a fixture file, creating its directory.
+ */
+function writeFixture(path: string, content: string): void {
+	mkdirSync(join(FIXTURE_DIR, path, ".."), { recursive: true });
+	writeFileSync(join(FIXTURE_DIR, path), content);
+}
+
+/**
+ * Run `savvy-lint check` with the given arguments and parse its JSON report.
+ */
+async function checkReport(args: string[] = []): Promise<Record<string, unknown>> {
+	const log = vi.spyOn(console, "log").mockImplementation(() => {});
+	await runCommand(checkCommand, ["--format", "json", ...args], CliContext);
+	const report = log.mock.calls.at(-1)?.[0];
+	log.mockRestore();
+	return JSON.parse(String(report)) as Record<string, unknown>;
+}
+
+beforeEach(() => {
+	mkdirSync(FIXTURE_DIR, { recursive: true });
+	vi.spyOn(process, "cwd").mockReturnValue(FIXTURE_DIR);
+	resetWorkspaceCache();
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	resetWorkspaceCache();
+	rmSync(FIXTURE_DIR, { recursive: true, force: true });
+});
+
+describe("explain", () => {
+	it("should describe the steps without modifying the file", async () => {
+		const manifest = join(FIXTURE_DIR, "package.json");
+		const content = '{"version":"1.0.0","name":"unsorted","scripts":{"test":"vitest","build":"tsc"}}';
+		writeFileSync(manifest, content);
+
+		// Without Biome, PackageJson.create sorts the file in place when called
+		const config = join(FIXTURE_DIR, "lint-staged.config.ts");
+		writeFileSync(
+			config,
+			`import { createConfig } from ${JSON.stringify(SOURCE_INDEX)};\n` +
+				"export default createConfig({ biome: false, ignoreFiles: false });\n",
+		);
+
+		const lines = await runCommand(explainCommand, ["--config", config, manifest]);
+
+		expect(readFileSync(manifest, "utf-8")).toBe(content);
+		expect(lines).toContain("\n**/package.json");
+		expect(lines.some((line) => line.includes("PackageJson.create included"))).toBe(true);
+		expect(lines).toContain("      (runs in process and writes files, not called)");
+	});
+
+	it("should print the commands built-in handlers return for the file", async () => {
+		vi.spyOn(Command, "findTool").mockImplementation((tool) => ({ available: true, command: tool, source: "global" }));
+		const source = join(FIXTURE_DIR, "index.ts");
+		const readme = join(FIXTURE_DIR, "README.md");
+		writeFileSync(source, "export const a = 1;\n");
+		writeFileSync(readme, "# Title\n");
+
+		// Biome excludes __test__/fixtures by default
+		const config = join(FIXTURE_DIR, "commands.config.ts");
+		writeFileSync(
+			config,
+			`import { createConfig } from ${JSON.stringify(SOURCE_INDEX)};\n` +
+				"export default createConfig({\n" +
+				"\tignoreFiles: false,\n" +
+				"\tbiome: { exclude: [] },\n" +
+				'\ttypescript: { typecheckCommand: "tsc --noEmit" },\n' +
+				"});\n",
+		);
+
+		const ts = await runCommand(explainCommand, ["--config", config, source]);
+		expect(ts).toContain(`      biome check --write --no-errors-on-unmatched '${source}'`);
+		expect(ts).toContain(`      savvy-lint tsdoc '${source}'`);
+		expect(ts).toContain("      tsc --noEmit");
+
+		const md = await runCommand(explainCommand, ["--config", config, readme]);
+		expect(md).toContain(`      markdownlint-cli2 --fix '${readme}'`);
+	});
+
+	it("should show command strings and leave functions uncalled", async () => {
+		const file = join(FIXTURE_DIR, "README.md");
+		writeFileSync(file, "# Title\n");
+
+		const config = join(FIXTURE_DIR, "lint-staged.config.mjs");
+		writeFileSync(config, 'export default { "*.md": ["markdownlint-cli2", () => { throw new Error("called"); }] };\n');
+
+		const lines = await runCommand(explainCommand, ["--config", config, file]);
+
+		expect(lines).toContain(`      markdownlint-cli2 '${file}'`);
+		expect(lines).toContain("  • step 2: function (not called)");
+	});
+});
+
+describe("init --dry-run", () => {
+	it("should print unified diffs without writing any files", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+		const lines = await runCommand(initCommand, ["--dry-run", "--hooks", "husky", "--preset", "minimal"], CliContext);
+
+		expect(readdirSync(FIXTURE_DIR)).toEqual([]);
+
+		const diffs = log.mock.calls.map(([diff]) => String(diff));
+		expect(diffs).toHaveLength(2);
+		expect(diffs[0]).toMatch(/^--- \/dev\/null\n\+\+\+ b\/\.husky\/pre-commit\n/);
+		expect(diffs[0]).toContain(`+${MANAGED_SECTION_BEGIN}`);
+		expect(diffs[1]).toMatch(/^--- \/dev\/null\n\+\+\+ b\/lib\/configs\/lint-staged\.config\.ts\n/);
+		expect(diffs[1]).toContain("+export default Preset.minimal();");
+		expect(lines).toContain("Dry run: 2 file(s) would change");
+	});
+
+	it("should diff an existing file against its pending contents", async () => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		const custom = "#!/usr/bin/env sh\necho custom\n";
+		writeFixture(".husky/pre-commit", custom);
+
+		await runCommand(initCommand, ["--dry-run", "--hooks", "husky", "--preset", "minimal"], CliContext);
+
+		expect(readFixture(".husky/pre-commit")).toBe(custom);
+		const diff = String(vi.mocked(console.log).mock.calls[0]?.[0]);
+		expect(diff).toMatch(/^--- a\/\.husky\/pre-commit\n\+\+\+ b\/\.husky\/pre-commit\n/);
+		expect(diff).toContain(" echo custom");
+	});
+});
+
+describe("uninstall", () => {
+	const hook = ".husky/pre-commit";
+	const install = () => withBackend("husky", (backend) => backend.install(preCommitSpec(DEFAULT_CONFIG_PATH), false));
+
+	it("should delete a hook left with only the generated header", async () => {
+		await install();
+
+		const lines = await runCommand(uninstallCommand, [], CliContext);
+
+		expect(existsSync(join(FIXTURE_DIR, hook))).toBe(false);
+		expect(lines).toContain(`\u2713 Removed ${hook}`);
+	});
+
+	it("should keep custom content in the hook", async () => {
+		const custom = "#!/usr/bin/env sh\necho custom\n";
+		writeFixture(hook, custom);
+		await install();
+
+		const lines = await runCommand(uninstallCommand, [], CliContext);
+
+		expect(readFixture(hook)).toBe(custom);
+		expect(lines).toContain(`\u2713 Removed managed section from ${hook} (kept custom hook content)`);
+	});
+
+	it("should leave modified configs in place and report them", async () => {
+		await install();
+		const modified = `${generateConfigContent("silk")}// local tweak\n`;
+		writeFixture(DEFAULT_CONFIG_PATH, modified);
+		writeFixture(MARKDOWNLINT_CONFIG_PATH, JSON.stringify(MARKDOWNLINT_TEMPLATE));
+
+		const lines = await runCommand(uninstallCommand, ["--remove-configs"], CliContext);
+
+		expect(readFixture(DEFAULT_CONFIG_PATH)).toBe(modified);
+		expect(lines).toContain(`\u26A0 ${DEFAULT_CONFIG_PATH}: modified since it was generated, left in place`);
+		expect(existsSync(join(FIXTURE_DIR, MARKDOWNLINT_CONFIG_PATH))).toBe(false);
+		expect(lines).toContain(`\u2713 Removed ${MARKDOWNLINT_CONFIG_PATH}`);
+	});
+});
+
+describe("check", () => {
+	beforeEach(() => {
+		vi.spyOn(Command, "exec").mockImplementation(() => {
+			throw new Error("git config exited with 1");
+		});
+	});
+
+	afterEach(() => {
+		process.exitCode = undefined;
+	});
+
+	it("should print a JSON report of the setup", async () => {
+		await runCommand(initCommand, ["--hooks", "husky", "--preset", "minimal"], CliContext);
+
+		const report = await checkReport(["--strict"]);
+
+		expect(Object.keys(report)).toEqual(["ok", "config", "hooks", "tools", "markdownlint", "biomeSchemas", "issues"]);
+		expect(report).toMatchObject({
+			ok: true,
+			config: { path: DEFAULT_CONFIG_PATH },
+			hooks: {
+				backend: "husky",
+				preCommit: {
+					path: ".husky/pre-commit",
+					exists: true,
+					managedSection: { found: true, isUpToDate: true, configPath: DEFAULT_CONFIG_PATH },
+				},
+				shellHooks: [],
+				commitMsg: null,
+				prePush: null,
+			},
+			tools: {
+				biome: { available: expect.any(Boolean) },
+				markdownlint: { available: expect.any(Boolean) },
+				typescript: { available: expect.any(Boolean) },
+			},
+			markdownlint: { path: MARKDOWNLINT_CONFIG_PATH, exists: false },
+			biomeSchemas: [],
+			issues: [],
+		});
+		expect(process.exitCode).toBeUndefined();
+	});
+
+	it("should list issues and set a non-zero exit code under --strict", async () => {
+		const report = await checkReport();
+		expect(report.ok).toBe(false);
+		expect(report.issues).toEqual([
+			"No husky pre-commit hook found. Run 'savvy-lint init' to create it.",
+			"No lint-staged config file found. Run 'savvy-lint init' to create one.",
+		]);
+		expect(process.exitCode).toBeUndefined();
+
+		await checkReport(["--strict"]);
+		expect(process.exitCode).toBe(1);
+	});
+
+	it("should fail under --strict in text mode when there are warnings", async () => {
+		await expect(runCommand(checkCommand, ["--quiet"], CliContext)).resolves.toContain(
+			"\u26A0  No lint-staged config file found.\n   Run 'savvy-lint init' to create one.",
+		);
+		await expect(runCommand(checkCommand, ["--quiet", "--strict"], CliContext)).rejects.toThrow(
+			"Lint-staged configuration has issues (--strict)",
+		);
+	});
+
+	it("should reject --fix with --format json", async () => {
+		await expect(runCommand(checkCommand, ["--fix", "--format", "json"], CliContext)).rejects.toThrow(
+			"cannot be combined with --format json",
+		);
+	});
+});
+
+describe("check --fix", () => {
+	const hook = ".husky/pre-commit";
+	const custom = "#!/usr/bin/env sh\n# Team hook\npnpm run prepare-commit\n";
+	const staleSchema = "https://example.com/markdownlint-cli2-0.1.0.schema.json";
+	const markdownlint = [
+		"{",
+		"\t// Team overrides",
+		`\t"$schema": "${staleSchema}",`,
+		'\t"config": { "MD013": false, "MD041": false },',
+		'\t"globs": ["docs/**/*.md"],',
+		'\t"ignores": ["CHANGELOG.md"]',
+		"}",
+		"",
+	].join("\n");
+
+	beforeEach(async () => {
+		vi.spyOn(Command, "exec").mockImplementation(() => {
+			throw new Error("git config exited with 1");
+		});
+		writeFixture(hook, custom);
+		await runCommand(initCommand, ["--hooks", "husky", "--preset", "minimal"], CliContext);
+	});
+
+	it("should rewrite an outdated managed section", async () => {
+		const current = readFixture(hook);
+		writeFixture(hook, current.replace(`${MANAGED_SECTION_BEGIN}\n`, `${MANAGED_SECTION_BEGIN}\n# savvy-lint 0.1\n`));
+
+		const lines = await runCommand(checkCommand, ["--fix", "--strict"], CliContext);
+
+		expect(lines).toContain(`\u2713 Updated managed section in ${hook}`);
+		expect(readFixture(hook)).toBe(current);
+		expect(await runCommand(checkCommand, ["--fix"], CliContext)).toContain("\u2713 Nothing to repair");
+	});
+
+	it("should repair a stale markdownlint $schema", async () => {
+		writeFixture(MARKDOWNLINT_CONFIG_PATH, markdownlint);
+
+		const lines = await runCommand(checkCommand, ["--fix"], CliContext);
+
+		expect(lines).toContain(`\u2713 Updated $schema in ${MARKDOWNLINT_CONFIG_PATH}`);
+		expect(readFixture(MARKDOWNLINT_CONFIG_PATH)).toBe(markdownlint.replace(staleSchema, MARKDOWNLINT_SCHEMA));
+		expect(lines).toContain(
+			`\u26A0 ${MARKDOWNLINT_CONFIG_PATH}: config rules differ from template (run 'savvy-lint init --force')`,
+		);
+	});
+
+	it("should leave user rules, config entries and custom hook content byte-for-byte unchanged", async () => {
+		const config = `${generateConfigContent("minimal")}// local tweak\n`;
+		writeFixture(DEFAULT_CONFIG_PATH, config);
+		const current = readFixture(hook);
+		writeFixture(hook, current.replace(`${MANAGED_SECTION_BEGIN}\n`, `${MANAGED_SECTION_BEGIN}\n# savvy-lint 0.1\n`));
+		writeFixture(MARKDOWNLINT_CONFIG_PATH, markdownlint);
+
+		await runCommand(checkCommand, ["--fix"], CliContext);
+
+		expect(readFixture(DEFAULT_CONFIG_PATH)).toBe(config);
+		expect(readFixture(hook).startsWith(custom)).toBe(true);
+		expect(readFixture(hook)).toBe(current);
+		const repaired = readFixture(MARKDOWNLINT_CONFIG_PATH).split("\n");
+		const original = markdownlint.split("\n");
+		expect(repaired.filter((line) => !line.includes("$schema"))).toEqual(
+			original.filter((line) => !line.includes("$schema")),
+		);
+	});
+});
+
+describe("commit-msg and pre-push hooks", () => {
+	const init = ["--preset", "minimal", "--commit-msg", "--pre-push-command", "pnpm run typecheck"];
+
+	beforeEach(() => {
+		vi.spyOn(Command, "detectPackageManager").mockReturnValue("pnpm");
+		vi.spyOn(Command, "exec").mockImplementation(() => {
+			throw new Error("git config exited with 1");
+		});
+	});
+
+	it("should install, check and remove them with husky", async () => {
+		const prePush = "#!/usr/bin/env sh\npnpm test\n";
+		writeFixture(".husky/pre-push", prePush);
+
+		const lines = await runCommand(initCommand, ["--hooks", "husky", ...init], CliContext);
+		expect(lines).toContain("\u2713 Created .husky/commit-msg");
+		expect(lines).toContain("\u2713 Added managed section to .husky/pre-push");
+		expect(readFixture(".husky/commit-msg")).toContain("pnpm exec commitlint --edit");
+		expect(readFixture(".husky/pre-push").startsWith(prePush)).toBe(true);
+		expect(readFixture(".husky/pre-push")).toContain("pnpm run typecheck");
+
+		const { hooks } = await checkReport();
+		expect(hooks).toMatchObject({
+			commitMsg: { path: ".husky/commit-msg", found: true, isUpToDate: true },
+			prePush: { path: ".husky/pre-push", found: true, isUpToDate: true },
+		});
+
+		const removed = await runCommand(uninstallCommand, [], CliContext);
+		expect(removed).toContain("\u2713 Removed .husky/commit-msg");
+		expect(removed).toContain("\u2713 Removed managed section from .husky/pre-push (kept custom hook content)");
+		expect(existsSync(join(FIXTURE_DIR, ".husky/commit-msg"))).toBe(false);
+		expect(readFixture(".husky/pre-push")).toBe(prePush);
+	});
+
+	it("should install, check and remove them with simple-git-hooks, keeping the user's pre-push command", async () => {
+		writeFixture(
+			"package.json",
+			'{\n\t"name": "fixture",\n\t"simple-git-hooks": {\n\t\t"pre-push": "pnpm test"\n\t}\n}\n',
+		);
+		const hooks = () => JSON.parse(readFixture("package.json"))["simple-git-hooks"];
+
+		const lines = await runCommand(initCommand, init, CliContext);
+		expect(lines).toContain("Hook manager: simple-git-hooks");
+		expect(lines).toContain("\u2713 Added savvy-lint command to package.json (commit-msg)");
+		expect(lines).toContain(
+			"\u2713 package.json (pre-push): has its own command, left in place (use --force to replace)",
+		);
+		expect(hooks()).toMatchObject({ "commit-msg": "pnpm exec commitlint --edit", "pre-push": "pnpm test" });
+
+		const report = await checkReport();
+		expect(report.hooks).toMatchObject({
+			commitMsg: { path: "package.json (commit-msg)", found: true, isUpToDate: true },
+			prePush: { path: "package.json (pre-push)", found: true, isUpToDate: true },
+		});
+
+		const removed = await runCommand(uninstallCommand, [], CliContext);
+		expect(removed).toContain("\u2713 Removed savvy-lint command from package.json (commit-msg)");
+		expect(removed).toContain("\u26A0 package.json (pre-push): not recognizable as savvy-lint's, left in place");
+		expect(hooks()).toEqual({ "pre-push": "pnpm test" });
+	});
+});
+
+describe("hook backends", () => {
+	beforeEach(() => {
+		vi.spyOn(Command, "detectPackageManager").mockReturnValue("pnpm");
+		// core.hooksPath is unset unless a test says otherwise
+		vi.spyOn(Command, "exec").mockImplementation(() => {
+			throw new Error("git config exited with 1");
+		});
+	});
+
+	const detect = () =>
+		Effect.gen(function* () {
+			return yield* detectHookBackend(yield* FileSystem.FileSystem);
+		}).pipe(Effect.provide(FixtureContext), Effect.runPromise);
+
+	describe("pre-commit command", () => {
+		it("should skip lint-staged under the same conditions as the managed section", () => {
+			const { command } = preCommitSpec(DEFAULT_CONFIG_PATH, ["BUILDKITE"]);
+			expect(command).toMatch(/^if ! \{ .* \}; then pnpm exec lint-staged --config "[^"]+"; fi$/);
+			expect(extractCiEnvVars(command)).toEqual(["BUILDKITE"]);
+			expect(extractConfigPath(command)).toBe(DEFAULT_CONFIG_PATH);
+
+			// Blank out the runner's own CI variables so only the given ones apply
+			const run = (env: Record<string, string>) =>
+				spawnSync("sh", ["-c", command.replace("pnpm exec lint-staged", "echo ran")], {
+					env: { ...process.env, CI: "", GITHUB_ACTIONS: "", BUILDKITE: "", SAVVY_LINT_SKIP: "", ...env },
+					encoding: "utf-8",
+				}).stdout;
+			expect(run({ CI: "true" })).toBe("");
+			expect(run({ BUILDKITE: "1" })).toBe("");
+			expect(run({ SAVVY_LINT_SKIP: "all" })).toBe("");
+			expect(run({ SAVVY_LINT_SKIP: "markdown" })).toBe(`ran --config ${DEFAULT_CONFIG_PATH}\n`);
+		});
+	});
+
+	describe("husky", () => {
+		const hook = ".husky/pre-commit";
+
+		it("should be detected from the .husky directory", async () => {
+			writeFixture(hook, "#!/usr/bin/env sh\n");
+			expect(await detect()).toBe("husky");
+		});
+
+		it("should install, report and remove a managed section around custom content", async () => {
+			const custom = "#!/usr/bin/env sh\necho custom\n";
+			writeFixture(hook, custom);
+			const spec = preCommitSpec(DEFAULT_CONFIG_PATH);
+
+			expect(await withBackend("husky", (backend) => backend.install(spec, false))).toBe(
+				`Added managed section to ${hook}`,
+			);
+			expect(readFixture(hook)).toContain("echo custom");
+			expect(readFixture(hook)).toContain(MANAGED_SECTION_BEGIN);
+
+			const status = await withBackend("husky", (backend) => backend.status(spec));
+			expect(status).toMatchObject({ exists: true, isUpToDate: true });
+			expect(extractConfigPath(status.installed ?? "")).toBe(DEFAULT_CONFIG_PATH);
+			expect(await withBackend("husky", (backend) => backend.status(preCommitSpec("other.config.ts")))).toMatchObject({
+				isUpToDate: false,
+			});
+
+			expect(await withBackend("husky", (backend) => backend.remove("pre-commit"))).toEqual({
+				removed: true,
+				message: `Removed managed section from ${hook} (kept custom hook content)`,
+			});
+			expect(readFixture(hook)).toBe(custom);
+		});
+	});
+
+	describe("hooks-path", () => {
+		const hook = ".githooks/pre-commit";
+
+		it("should be detected from core.hooksPath outside .husky", async () => {
+			vi.mocked(Command.exec).mockReturnValue(".githooks");
+			expect(await detect()).toBe("hooks-path");
+
+			vi.mocked(Command.exec).mockReturnValue(".husky/_");
+			expect(await detect()).toBe("husky");
+		});
+
+		it("should create, report and delete a generated hook", async () => {
+			vi.mocked(Command.exec).mockReturnValue(".githooks");
+			const spec = preCommitSpec(DEFAULT_CONFIG_PATH);
+
+			expect(await withBackend("auto", (backend) => backend.install(spec, false))).toBe(`Created ${hook}`);
+			expect(readFixture(hook).startsWith(hookHeader("Pre-commit hook with savvy-lint managed section"))).toBe(true);
+			expect(await withBackend("auto", (backend) => backend.status(spec))).toMatchObject({
+				exists: true,
+				isUpToDate: true,
+			});
+
+			expect(await withBackend("auto", (backend) => backend.remove("pre-commit"))).toEqual({
+				removed: true,
+				message: `Removed ${hook}`,
+			});
+			expect(existsSync(join(FIXTURE_DIR, hook))).toBe(false);
+		});
+	});
+
+	describe("lefthook", () => {
+		const config = "pre-commit:\n  commands:\n    test:\n      run: pnpm test\n";
+
+		it("should be detected from its config file", async () => {
+			writeFixture(".lefthook.yml", config);
+			expect(await detect()).toBe("lefthook");
+		});
+
+		it("should add, report and remove the savvy-lint command", async () => {
+			writeFixture("lefthook.yml", config);
+			const spec = preCommitSpec(DEFAULT_CONFIG_PATH);
+
+			expect(await withBackend("auto", (backend) => backend.install(spec, false))).toBe(
+				"Added savvy-lint command to lefthook.yml (pre-commit)",
+			);
+			expect(parse(readFixture("lefthook.yml"))).toEqual({
+				"pre-commit": { commands: { test: { run: "pnpm test" }, "savvy-lint": { run: spec.command } } },
+			});
+			expect(await withBackend("auto", (backend) => backend.status(spec))).toEqual({
+				exists: true,
+				installed: spec.command,
+				isUpToDate: true,
+			});
+
+			expect(await withBackend("auto", (backend) => backend.remove("pre-commit"))).toEqual({
+				removed: true,
+				message: "Removed savvy-lint command from lefthook.yml (pre-commit)",
+			});
+			expect(readFixture("lefthook.yml")).toBe(config);
+		});
+	});
+
+	describe("simple-git-hooks", () => {
+		const manifest = '{\n\t"name": "fixture",\n\t"simple-git-hooks": {\n\t\t"pre-commit": "pnpm test"\n\t}\n}\n';
+
+		it("should be detected from package.json or its config file", async () => {
+			writeFixture("package.json", manifest);
+			expect(await detect()).toBe("simple-git-hooks");
+
+			writeFixture("package.json", '{ "name": "fixture" }\n');
+			expect(await detect()).toBe("husky");
+			writeFixture(".simple-git-hooks.json", "{}\n");
+			expect(await detect()).toBe("simple-git-hooks");
+		});
+
+		it("should chain, report and remove the savvy-lint command", async () => {
+			writeFixture("package.json", manifest);
+			const spec = preCommitSpec(DEFAULT_CONFIG_PATH);
+
+			expect(await withBackend("auto", (backend) => backend.install(spec, false))).toBe(
+				"Updated savvy-lint command in package.json (pre-commit)",
+			);
+			const hooks = JSON.parse(readFixture("package.json"))["simple-git-hooks"];
+			expect(hooks["pre-commit"]).toBe(`pnpm test && ${spec.command}`);
+			expect(await withBackend("auto", (backend) => backend.status(spec))).toEqual({
+				exists: true,
+				installed: spec.command,
+				isUpToDate: true,
+			});
+
+			expect(await withBackend("auto", (backend) => backend.remove("pre-commit"))).toEqual({
+				removed: true,
+				message: "Removed savvy-lint command from package.json (pre-commit)",
+			});
+			expect(readFixture("package.json")).toBe(manifest);
+		});
+
+		it("should keep an existing pre-push command unless forced", async () => {
+			const withPrePush = '{\n\t"name": "fixture",\n\t"simple-git-hooks": {\n\t\t"pre-push": "pnpm test"\n\t}\n}\n';
+			writeFixture("package.json", withPrePush);
+			const spec = prePushSpec("pnpm run typecheck");
+
+			expect(await withBackend("auto", (backend) => backend.install(spec, false))).toBe(
+				"package.json (pre-push): has its own command, left in place (use --force to replace)",
+			);
+			expect(readFixture("package.json")).toBe(withPrePush);
+
+			expect(await withBackend("auto", (backend) => backend.install(spec, true))).toBe(
+				"Replaced package.json (pre-push) (--force)",
+			);
+			expect(JSON.parse(readFixture("package.json"))["simple-git-hooks"]["pre-push"]).toBe("pnpm run typecheck");
+			expect(await withBackend("auto", (backend) => backend.install(spec, false))).toBe(
+				"package.json (pre-push): up-to-date",
+			);
+		});
+	});
+});
@@ -1,21 +1,31 @@
 import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
 import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
 import { findWorkspaceRootSync, getWorkspacePackagesSync } from "workspaces-effect";
+import { parseDocument } from "yaml";
+import type { TypecheckDiagnostic } from "../src/index.js";
 import {
 	Biome,
 	Command,
 	ConfigDiscovery,
 	ConfigDiscoveryLive,
 	Filter,
+	Handler,
 	Markdown,
 	PackageJson,
 	PnpmWorkspace,
 	Preset,
 	ShellScripts,
+	Stylelint,
 	TypeScript,
 	Yaml,
 	createConfig,
+	describeConfig,
+	findConfigPath,
+	loadConfig,
+	matchGlob,
+	migrateConfig,
+	resolveTasks,
 } from "../src/index.js";
 import { resetWorkspaceCache } from "../src/utils/Workspace.js";
 
@@ -186,6 +196,18 @@ describe("Handler classes", () => {
 			expect(result).toContain("--config-path=./custom-biome.json");
 		});
 
+		it("should route extensionless Node.js scripts to fmt script", () => {
+			const tool = join(FIXTURES_DIR, "tool");
+			const release = join(FIXTURES_DIR, "release-script");
+			writeFileSync(tool, "#!/usr/bin/env tsx\nconsole.log(1);\n");
+			writeFileSync(release, "#!/bin/sh\necho release\n");
+
+			const result = Biome.scriptCommand({ config: "./custom-biome.json", exclude: [] })([tool, release]);
+			expect(result).toContain("fmt script --config-path './custom-biome.json'");
+			expect(result).toContain(tool);
+			expect(result).not.toContain(release);
+		});
+
 		it("should have findConfig method", () => {
 			expect(typeof Biome.findConfig).toBe("function");
 		});
@@ -290,6 +312,45 @@ describe("Handler classes", () => {
 		});
 	});
 
+	describe("Stylelint", () => {
+		it("should have correct glob pattern", () => {
+			expect(Stylelint.glob).toBe("**/*.{css,scss,less}");
+		});
+
+		it("should lint with fix and an explicit config", () => {
+			const requireTool = vi.spyOn(Command, "requireTool").mockReturnValue("stylelint");
+			try {
+				expect(Stylelint.create({ config: "./custom.json" })(["src/app.scss"])).toBe(
+					"stylelint --config './custom.json' --fix --allow-empty-input 'src/app.scss'",
+				);
+				expect(Stylelint.create({ noFix: true })(["src/app.scss"])).not.toContain("--fix");
+			} finally {
+				requireTool.mockRestore();
+			}
+		});
+
+		it("should find the config in lib/configs before the root", () => {
+			const libConfigs = join(FIXTURES_DIR, "lib/configs");
+			mkdirSync(libConfigs, { recursive: true });
+			writeFileSync(join(FIXTURES_DIR, ".stylelintrc.json"), "{}");
+			writeFileSync(join(libConfigs, ".stylelintrc.json"), "{}");
+			const cwd = vi.spyOn(process, "cwd").mockReturnValue(FIXTURES_DIR);
+			try {
+				expect(Stylelint.findConfig()).toBe(join(libConfigs, ".stylelintrc.json"));
+			} finally {
+				cwd.mockRestore();
+				rmSync(join(FIXTURES_DIR, "lib"), { recursive: true });
+				rmSync(join(FIXTURES_DIR, ".stylelintrc.json"));
+			}
+		});
+
+		it("should only be added by createConfig when enabled", () => {
+			expect(createConfig()[Stylelint.glob]).toBeUndefined();
+			expect(Preset.silk()[Stylelint.glob]).toBeUndefined();
+			expect(createConfig({ stylelint: {} })[Stylelint.glob]).toBeDefined();
+		});
+	});
+
 	describe("Yaml", () => {
 		it("should have correct glob pattern", () => {
 			expect(Yaml.glob).toBe("**/*.{yml,yaml}");
@@ -504,6 +565,150 @@ describe("Handler classes", () => {
 			expect(sorted.customKey).toBe("string-value");
 			expect(sorted.packages).toEqual(["a", "b"]);
 		});
+
+		it("should keep comments attached to keys and entries when sorting", () => {
+			const unsorted = [
+				"onlyBuiltDependencies:",
+				"  # native addon",
+				"  - zlib",
+				"  - abc # needed by tests",
+				"",
+				"# workspace globs",
+				"packages:",
+				"  - z-pkg",
+				"  # apps",
+				"  - a-pkg",
+				"",
+			].join("\n");
+
+			const formatted = PnpmWorkspace.formatContent(unsorted);
+
+			expect(formatted).toBe(
+				[
+					"# workspace globs",
+					"packages:",
+					"  # apps",
+					"  - a-pkg",
+					"  - z-pkg",
+					"",
+					"onlyBuiltDependencies:",
+					"  - abc # needed by tests",
+					"  # native addon",
+					"  - zlib",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should leave already-sorted content byte-identical", () => {
+			const sorted = [
+				"# Workspace layout",
+				"",
+				"packages:",
+				"  - apps/*",
+				'  - "packages/*" # libraries',
+				"",
+				"# Native builds",
+				"onlyBuiltDependencies:",
+				"  - esbuild",
+				"",
+			].join("\n");
+
+			expect(PnpmWorkspace.formatContent(sorted)).toBe(sorted);
+		});
+
+		it("should report whether sortDocument reordered anything", () => {
+			expect(PnpmWorkspace.sortDocument(parseDocument("packages:\n  - a\n  - b\n"))).toBe(false);
+			expect(PnpmWorkspace.sortDocument(parseDocument("packages:\n  - b\n  - a\n"))).toBe(true);
+		});
+
+		it("should sort catalog, override, and peer rule maps by key", () => {
+			const sorted = PnpmWorkspace.sortContent({
+				catalog: { zod: "^3.0.0", effect: "^3.0.0" },
+				catalogs: { silk: { typescript: "^5.0.0", "@types/node": "^22.0.0" }, legacy: { a: "1" } },
+				overrides: { lodash: "^4.17.23", "@isaacs/brace-expansion": "^5.0.1" },
+				patchedDependencies: { "z-lib": "patches/z-lib.patch", "a-lib": "patches/a-lib.patch" },
+				peerDependencyRules: {
+					ignoreMissing: ["react", "@babel/core"],
+					allowedVersions: { vite: "6", eslint: "9" },
+				},
+			});
+
+			expect(Object.keys(sorted.catalog ?? {})).toEqual(["effect", "zod"]);
+			expect(Object.keys(sorted.catalogs ?? {})).toEqual(["legacy", "silk"]);
+			expect(Object.keys(sorted.catalogs?.silk ?? {})).toEqual(["@types/node", "typescript"]);
+			expect(Object.keys(sorted.overrides ?? {})).toEqual(["@isaacs/brace-expansion", "lodash"]);
+			expect(Object.keys(sorted.patchedDependencies ?? {})).toEqual(["a-lib", "z-lib"]);
+			expect(Object.keys(sorted.peerDependencyRules ?? {})).toEqual(["allowedVersions", "ignoreMissing"]);
+			expect(Object.keys(sorted.peerDependencyRules?.allowedVersions ?? {})).toEqual(["eslint", "vite"]);
+			expect(sorted.peerDependencyRules?.ignoreMissing).toEqual(["@babel/core", "react"]);
+		});
+
+		it("should sort named catalogs in the document while keeping comments", () => {
+			const unsorted = [
+				"packages:",
+				"  - pkg",
+				"catalogs:",
+				"  silk:",
+				"    # runtime",
+				"    effect: ^3.0.0",
+				"    # tooling",
+				'    "@types/node": ^22.0.0',
+				"",
+			].join("\n");
+
+			expect(PnpmWorkspace.formatContent(unsorted)).toBe(
+				[
+					"packages:",
+					"  - pkg",
+					"catalogs:",
+					"  silk:",
+					"    # tooling",
+					'    "@types/node": ^22.0.0',
+					"    # runtime",
+					"    effect: ^3.0.0",
+					"",
+				].join("\n"),
+			);
+		});
+
+		it("should report unused catalog entries and missing catalog references", () => {
+			const manifest = join(FIXTURES_DIR, "catalog-package.json");
+			writeFileSync(
+				manifest,
+				JSON.stringify({
+					dependencies: { effect: "catalog:", zod: "catalog:" },
+					devDependencies: { typescript: "catalog:silk", vitest: "catalog:silk", left: "^1.0.0" },
+				}),
+				"utf-8",
+			);
+
+			const issues = PnpmWorkspace.findCatalogIssues(
+				{
+					catalog: { effect: "^3.0.0", unused: "^1.0.0" },
+					catalogs: { silk: { typescript: "^5.0.0" } },
+				},
+				[manifest],
+			);
+
+			expect(issues.unused).toEqual([{ catalog: "default", name: "unused" }]);
+			expect(issues.missing).toEqual([
+				{ file: manifest, catalog: "default", name: "zod" },
+				{ file: manifest, catalog: "silk", name: "vitest" },
+			]);
+			expect(() => PnpmWorkspace.reportCatalogIssues(issues)).toThrow("Missing catalog entries");
+		});
+
+		it("should not report references to undefined catalogs when configDependencies are declared", () => {
+			const manifest = join(FIXTURES_DIR, "plugin-catalog-package.json");
+			writeFileSync(manifest, JSON.stringify({ dependencies: { effect: "catalog:silk" } }), "utf-8");
+
+			const issues = PnpmWorkspace.findCatalogIssues({ configDependencies: { plugin: "1.0.0" } }, [manifest]);
+			expect(issues.missing).toEqual([]);
+
+			const withoutPlugins = PnpmWorkspace.findCatalogIssues({}, [manifest]);
+			expect(withoutPlugins.missing).toEqual([{ file: manifest, catalog: "silk", name: "effect" }]);
+		});
 	});
 
 	describe("ShellScripts", () => {
@@ -514,13 +719,171 @@ describe("Handler classes", () => {
 		it("should exclude .claude/scripts by default", () => {
 			const handler = ShellScripts.create();
 			const result = handler(["scripts/build.sh", ".claude/scripts/hook.sh"]);
-			expect(result).toEqual(["chmod -x scripts/build.sh"]);
+			expect(result).toEqual(["chmod -x 'scripts/build.sh'"]);
 		});
 
 		it("should make executable when option is set", () => {
 			const handler = ShellScripts.create({ makeExecutable: true });
 			const result = handler(["scripts/build.sh"]);
-			expect(result).toEqual(["chmod +x scripts/build.sh"]);
+			expect(result).toEqual(["chmod +x 'scripts/build.sh'"]);
+		});
+
+		it("should shell-escape paths passed to chmod", () => {
+			const handler = ShellScripts.create({ updateIndex: true });
+			expect(handler(["scripts/my build;$(id).sh", "scripts/it's.sh"])).toEqual([
+				"chmod -x 'scripts/my build;$(id).sh'",
+				"chmod -x 'scripts/it'\\''s.sh'",
+				"git update-index --chmod=-x -- 'scripts/my build;$(id).sh' 'scripts/it'\\''s.sh'",
+			]);
+		});
+
+		it("should run shellcheck with the configured flags", () => {
+			const findTool = vi
+				.spyOn(Command, "findTool")
+				.mockReturnValue({ available: true, command: "shellcheck", source: "global" });
+			try {
+				const handler = ShellScripts.create({
+					shellcheck: true,
+					shellcheckSeverity: "warning",
+					shellcheckExclude: ["SC1091", "SC2086"],
+					shellcheckShell: "bash",
+				});
+				expect(handler(["scripts/build.sh"])).toEqual([
+					"chmod -x 'scripts/build.sh'",
+					"shellcheck --severity=warning --exclude=SC1091,SC2086 --shell=bash 'scripts/build.sh'",
+				]);
+			} finally {
+				findTool.mockRestore();
+			}
+		});
+
+		it("should warn and only manage permissions when shellcheck is missing", () => {
+			const findTool = vi
+				.spyOn(Command, "findTool")
+				.mockReturnValue({ available: false, command: undefined, source: undefined });
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			try {
+				const handler = ShellScripts.create({ shellcheck: true });
+				expect(handler(["scripts/build.sh"])).toEqual(["chmod -x 'scripts/build.sh'"]);
+				expect(warn).toHaveBeenCalledOnce();
+			} finally {
+				findTool.mockRestore();
+				warn.mockRestore();
+			}
+		});
+
+		it("should record per-directory modes in the git index", () => {
+			const handler = ShellScripts.create({ executable: [".husky/", "bin/"], updateIndex: true });
+			expect(handler(["bin/release.sh", "scripts/build.sh"])).toEqual([
+				"chmod +x 'bin/release.sh'",
+				"chmod -x 'scripts/build.sh'",
+				"git update-index --chmod=+x -- 'bin/release.sh'",
+				"git update-index --chmod=-x -- 'scripts/build.sh'",
+			]);
+		});
+
+		it("should recognize extensionless scripts by their shebang", () => {
+			const script = join(FIXTURES_DIR, "release");
+			const notes = join(FIXTURES_DIR, "NOTES");
+			writeFileSync(script, "#!/usr/bin/env bash\necho release\n");
+			writeFileSync(notes, "#!/usr/bin/env node\n");
+			expect(ShellScripts.isShellScript(script)).toBe(true);
+			expect(ShellScripts.isShellScript(notes)).toBe(false);
+			expect(ShellScripts.isShellScript(join(FIXTURES_DIR, "missing"))).toBe(false);
+
+			// Extensionless scripts are commands, so they keep their executable bit
+			expect(ShellScripts.create()([script, notes])).toEqual([]);
+			expect(ShellScripts.create({ updateIndex: true })([script])).toEqual([]);
+			expect(ShellScripts.create({ makeExecutable: true })([script])).toEqual([`chmod +x '${script}'`]);
+		});
+
+		it("should apply executable patterns to extensionless scripts", () => {
+			const hook = join(FIXTURES_DIR, "hooks", "pre-commit");
+			const helper = join(FIXTURES_DIR, "lib", "helper");
+			mkdirSync(dirname(hook), { recursive: true });
+			mkdirSync(dirname(helper), { recursive: true });
+			writeFileSync(hook, "#!/bin/sh\necho hook\n");
+			writeFileSync(helper, "#!/bin/sh\necho helper\n");
+
+			const handler = ShellScripts.create({ executable: ["hooks/"], updateIndex: true });
+			expect(handler([hook, helper])).toEqual([`chmod +x '${hook}'`, `git update-index --chmod=+x -- '${hook}'`]);
+		});
+
+		it("should update the git index for shell scripts from a single entry", () => {
+			const hook = join(FIXTURES_DIR, "hooks", "pre-commit");
+			mkdirSync(dirname(hook), { recursive: true });
+			writeFileSync(hook, "#!/bin/sh\necho hook\n");
+			const config = createConfig({
+				ignoreFiles: false,
+				biome: false,
+				shellScripts: { skipFormat: true, executable: ["hooks/"], updateIndex: true },
+			});
+			const run = (glob: string, files: string[]): string[] =>
+				[(config[glob] as (f: readonly string[]) => string | string[])(files)].flat();
+
+			// lint-staged runs entries concurrently, so only one may take index.lock
+			expect(run(ShellScripts.glob, ["scripts/build.sh"])).toEqual(["chmod -x 'scripts/build.sh'"]);
+			expect(run(ShellScripts.shebangGlob, [hook])).toEqual([`chmod +x '${hook}'`]);
+			expect(run(ShellScripts.indexGlob, ["scripts/build.sh", hook])).toEqual([
+				`git update-index --chmod=+x -- '${hook}'`,
+				"git update-index --chmod=-x -- 'scripts/build.sh'",
+			]);
+			expect(createConfig({ shellScripts: {} })[ShellScripts.indexGlob]).toBeUndefined();
+		});
+
+		it("should read the shell indentation from .editorconfig", () => {
+			writeFileSync(
+				join(FIXTURES_DIR, ".editorconfig"),
+				"root = true\n\n[*]\nindent_style = tab\n\n[*.{sh,bash}]\nindent_style = space\nindent_size = 2\n",
+			);
+			const cwd = vi.spyOn(process, "cwd").mockReturnValue(FIXTURES_DIR);
+			try {
+				expect(ShellScripts.findIndent()).toBe(2);
+			} finally {
+				cwd.mockRestore();
+				rmSync(join(FIXTURES_DIR, ".editorconfig"));
+			}
+		});
+
+		it("should format with shfmt only when it is available", () => {
+			const findTool = vi
+				.spyOn(Command, "findTool")
+				.mockReturnValue({ available: true, command: "shfmt", source: "global" });
+			try {
+				const handler = ShellScripts.fmtCommand({ indent: 4 });
+				expect(handler(["scripts/build.sh", ".claude/scripts/hook.sh"])).toBe("shfmt -w -i 4 'scripts/build.sh'");
+
+				findTool.mockReturnValue({ available: false, command: undefined, source: undefined });
+				expect(handler(["scripts/build.sh"])).toEqual([]);
+			} finally {
+				findTool.mockRestore();
+			}
+		});
+	});
+
+	describe("Handler", () => {
+		afterAll(() => {
+			vi.unstubAllEnvs();
+		});
+
+		it("should skip the handlers listed in SAVVY_LINT_SKIP", () => {
+			vi.stubEnv("SAVVY_LINT_SKIP", "markdown, shell-scripts");
+			expect(Handler.getSkipped()).toEqual(["markdown", "shellscripts"]);
+			expect(Handler.isSkipped("shellScripts")).toBe(true);
+			expect(Handler.isSkipped("biome")).toBe(false);
+			expect(ShellScripts.create()(["scripts/build.sh"])).toEqual([]);
+		});
+
+		it("should skip every handler when SAVVY_LINT_SKIP is all", () => {
+			vi.stubEnv("SAVVY_LINT_SKIP", "all");
+			expect(Handler.getSkipped()).toBe("all");
+			expect(Handler.isSkipped("stylelint")).toBe(true);
+		});
+
+		it("should skip nothing when SAVVY_LINT_SKIP is unset", () => {
+			vi.stubEnv("SAVVY_LINT_SKIP", "");
+			expect(Handler.getSkipped()).toEqual([]);
+			expect(ShellScripts.create()(["scripts/build.sh"])).toEqual(["chmod -x 'scripts/build.sh'"]);
 		});
 	});
 
@@ -529,19 +892,239 @@ describe("Handler classes", () => {
 			expect(TypeScript.glob).toBe("*.{ts,cts,mts,tsx}");
 		});
 
-		it("should run typecheck by default", () => {
+		it("should run TSDoc validation then typecheck by default", () => {
 			const handler = TypeScript.create();
 			const result = handler(["src/index.ts"]);
+			expect(result).toHaveLength(2);
+			expect((result as string[])[0]).toContain("tsdoc 'src/index.ts'");
+			expect((result as string[])[1]).toContain("tsgo --noEmit");
+		});
+
+		it("should pass the TSDoc config path to the tsdoc command", () => {
+			const handler = TypeScript.create({ skipTypecheck: true, tsdocConfig: "tsdoc.json" });
+			const result = handler(["src/index.ts"]);
+			expect(result).toHaveLength(1);
+			expect((result as string[])[0]).toContain("tsdoc --config 'tsdoc.json' 'src/index.ts'");
+		});
+
+		it("should skip TSDoc validation when configured", () => {
+			const handler = TypeScript.create({ skipTsdoc: true });
+			const result = handler(["src/index.ts"]);
 			expect(result).toHaveLength(1);
 			expect((result as string[])[0]).toContain("tsgo --noEmit");
 		});
 
-		it("should return empty when typecheck is skipped", () => {
-			const handler = TypeScript.create({ skipTypecheck: true });
+		it("should return empty when TSDoc and typecheck are skipped", () => {
+			const handler = TypeScript.create({ skipTsdoc: true, skipTypecheck: true });
 			const result = handler(["src/index.ts"]);
 			expect(result).toEqual([]);
 		});
 
+		it("should report unknown tags, malformed links and missing @param", async () => {
+			const file = join(FIXTURES_DIR, "tsdoc-invalid.ts");
+			writeFileSync(
+				file,
+				[
+					"/**",
+					" * Adds numbers. See {@link add",
+					" * @param a - First operand",
+					" * @bogus not a tag",
+					" */",
+					"export function add(a: number, b: number): number {",
+					"\treturn a + b;",
+					"}",
+					"",
+					"export function undocumented(x: number): number {",
+					"\treturn x;",
+					"}",
+					"",
+				].join("\n"),
+			);
+
+			const diagnostics = await TypeScript.lintTsdoc([file], join(import.meta.dirname, "..", "tsdoc.json"));
+			expect(diagnostics.map((d) => [d.line, d.messageId])).toEqual([
+				[2, "tsdoc-inline-tag-missing-right-brace"],
+				[4, "tsdoc-undefined-tag"],
+				[6, "tsdoc-param-missing"],
+			]);
+			expect(diagnostics.map((d) => TypeScript.formatTsdocDiagnostic(d))).toContain(
+				`${file}:6:32 - Missing @param for "b" in exported function "add" (tsdoc-param-missing)`,
+			);
+		});
+
+		it("should accept custom tags from the nearest tsdoc.json", async () => {
+			const file = join(FIXTURES_DIR, "tsdoc-valid.ts");
+			writeFileSync(
+				file,
+				[
+					"/**",
+					" * Identity.",
+					" * @param x - The value",
+					" * @since 1.0.0",
+					" */",
+					"export function identity(x: number): number {",
+					"\treturn x;",
+					"}",
+					"",
+				].join("\n"),
+			);
+
+			expect(await TypeScript.lintTsdoc([file])).toEqual([]);
+		});
+
+		describe("affected workspace projects", () => {
+			const root = join(FIXTURES_DIR, "ts-workspace");
+			const packages = ["a", "b", "c", "d", "e"].map((name) => ({ name: `@org/${name}`, path: join(root, name) }));
+
+			beforeAll(() => {
+				const manifests: Record<string, Record<string, unknown>> = {
+					a: {},
+					b: { dependencies: { "@org/a": "workspace:*" } },
+					c: { devDependencies: { "@org/b": "workspace:*" } },
+					d: {},
+				};
+				for (const [name, deps] of Object.entries(manifests)) {
+					mkdirSync(join(root, name, "src"), { recursive: true });
+					writeFileSync(join(root, name, "package.json"), JSON.stringify({ name: `@org/${name}`, ...deps }));
+					writeFileSync(join(root, name, "tsconfig.json"), "{}");
+				}
+				mkdirSync(join(root, "e"), { recursive: true });
+				writeFileSync(join(root, "e", "package.json"), '{ "name": "@org/e", ');
+
+				vi.mocked(findWorkspaceRootSync).mockReturnValue(root);
+				vi.mocked(getWorkspacePackagesSync).mockReturnValue(
+					packages as unknown as ReturnType<typeof getWorkspacePackagesSync>,
+				);
+				resetWorkspaceCache();
+			});
+
+			afterAll(() => {
+				vi.mocked(findWorkspaceRootSync).mockReturnValue(null);
+				vi.mocked(getWorkspacePackagesSync).mockReturnValue([]);
+				resetWorkspaceCache();
+			});
+
+			it("should include transitive dependents by default", () => {
+				expect(TypeScript.findAffectedProjects([join(root, "a/src/index.ts")])).toEqual([
+					join(root, "a/tsconfig.json"),
+					join(root, "b/tsconfig.json"),
+					join(root, "c/tsconfig.json"),
+				]);
+			});
+
+			it("should skip packages whose manifest does not parse", () => {
+				resetWorkspaceCache();
+				expect(TypeScript.findAffectedProjects([join(root, "b/src/index.ts")])).toEqual([
+					join(root, "b/tsconfig.json"),
+					join(root, "c/tsconfig.json"),
+				]);
+			});
+
+			it("should only include owning packages with the packages scope", () => {
+				const files = [join(root, "a/src/index.ts"), join(root, "d/src/index.ts")];
+				expect(TypeScript.findAffectedProjects(files, "packages")).toEqual([
+					join(root, "a/tsconfig.json"),
+					join(root, "d/tsconfig.json"),
+				]);
+			});
+
+			it("should return null for files outside any package", () => {
+				expect(TypeScript.findAffectedProjects([join(root, "scripts/build.ts")])).toBeNull();
+			});
+
+			it("should typecheck each affected project", () => {
+				const handler = TypeScript.create({ skipTsdoc: true, typecheckScope: "packages" });
+				const result = handler([join(root, "b/src/index.ts")]);
+				expect(result).toHaveLength(1);
+				expect((result as string[])[0]).toContain(`tsgo --noEmit --project '${join(root, "b/tsconfig.json")}'`);
+			});
+
+			it("should fall back to a root-level typecheck for root files", () => {
+				const handler = TypeScript.create({ skipTsdoc: true });
+				const result = handler([join(root, "scripts/build.ts")]);
+				expect(result).toHaveLength(1);
+				expect((result as string[])[0]).not.toContain("--project");
+			});
+
+			it("should run a custom typecheck command once", () => {
+				const handler = TypeScript.create({ skipTsdoc: true, typecheckCommand: "tsc -b" });
+				expect(handler([join(root, "a/src/index.ts")])).toEqual(["tsc -b"]);
+			});
+		});
+
+		describe("staged diagnostics only", () => {
+			const output = [
+				"src/staged.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+				"src/other.ts(10,1): error TS2304: Cannot find name 'foo'.",
+				"src/staged.ts(5,3): error TS2345: Argument of type 'A' is not assignable to parameter of type 'B'.",
+				"  Property 'x' is missing in type 'A' but required in type 'B'.",
+				"error TS5083: Cannot read file '/repo/tsconfig.base.json'.",
+				"",
+				"Found 4 errors in 2 files.",
+			].join("\n");
+
+			it("should parse plain compiler output", () => {
+				const diagnostics = TypeScript.parseTypecheckOutput(output);
+				expect(diagnostics.map((d) => [d.file, d.line, d.column, d.code])).toEqual([
+					["src/staged.ts", 3, 7, "TS2322"],
+					["src/other.ts", 10, 1, "TS2304"],
+					["src/staged.ts", 5, 3, "TS2345"],
+					[null, 0, 0, "TS5083"],
+				]);
+				expect(diagnostics[2]?.message).toContain("\n  Property 'x' is missing");
+			});
+
+			it("should parse pretty compiler output", () => {
+				const pretty = [
+					"\u001b[96msrc/staged.ts\u001b[0m:\u001b[93m3\u001b[0m:\u001b[93m7\u001b[0m - \u001b[91merror\u001b[0m\u001b[90m TS2322: \u001b[0mType 'string' is not assignable to type 'number'.",
+					"",
+					"\u001b[7m3\u001b[0m const x: number = 'a';",
+				].join("\n");
+				const diagnostics = TypeScript.parseTypecheckOutput(pretty);
+				expect(diagnostics).toHaveLength(1);
+				expect(TypeScript.formatTypecheckDiagnostic(diagnostics[0] as TypecheckDiagnostic)).toBe(
+					"src/staged.ts:3:7 - error TS2322: Type 'string' is not assignable to type 'number'.",
+				);
+			});
+
+			it("should block on staged files and location-less errors only", () => {
+				const { blocking, ignored } = TypeScript.partitionDiagnostics(
+					TypeScript.parseTypecheckOutput(output),
+					["/repo/src/staged.ts"],
+					"/repo",
+				);
+				expect(blocking.map((d) => d.code)).toEqual(["TS2322", "TS2345", "TS5083"]);
+				expect(ignored.map((d) => d.code)).toEqual(["TS2304"]);
+			});
+
+			it("should wrap typecheck commands in savvy-lint typecheck", () => {
+				const handler = TypeScript.create({
+					skipTsdoc: true,
+					stagedDiagnosticsOnly: true,
+					typecheckCommand: "tsc --noEmit",
+				});
+				const result = handler(["src/index.ts"]);
+				expect(result).toHaveLength(1);
+				expect((result as string[])[0]).toContain("typecheck --command 'tsc --noEmit' 'src/index.ts'");
+			});
+
+			it("should chunk the staged files passed to savvy-lint typecheck", () => {
+				const files = Array.from({ length: 4000 }, (_, i) => `src/components/generated/module-${i}.ts`);
+				const handler = TypeScript.create({
+					skipTsdoc: true,
+					stagedDiagnosticsOnly: true,
+					typecheckCommand: "tsc --noEmit",
+				});
+				const result = handler(files) as string[];
+				expect(result.length).toBeGreaterThan(1);
+				for (const command of result) {
+					expect(command).toContain("typecheck --command 'tsc --noEmit' ");
+					expect(command.length).toBeLessThan(Filter.defaultMaxArgLength + 200);
+				}
+				expect(result.join(" ").match(/module-\d+\.ts/g)).toHaveLength(files.length);
+			});
+		});
+
 		it("should use detected compiler for typecheck command", () => {
 			TypeScript.clearCache();
 			const cmd = TypeScript.getDefaultTypecheckCommand();
@@ -600,6 +1183,52 @@ describe("Utility classes", () => {
 			expect(result).toEqual(["src/index.ts"]);
 		});
 
+		it("should match globs with *, ** and brace sets", () => {
+			const files = ["src/index.ts", "src/api/client.gen.ts", "docs/guide.md", "README.md", "src/styles.css"];
+			expect(Filter.exclude(files, ["**/*.gen.ts"])).toEqual([
+				"src/index.ts",
+				"docs/guide.md",
+				"README.md",
+				"src/styles.css",
+			]);
+			expect(Filter.include(files, ["src/*.{ts,css}"])).toEqual(["src/index.ts", "src/styles.css"]);
+		});
+
+		it("should match globs without a slash against the basename", () => {
+			const files = ["README.md", "docs/guide.md", "src/index.ts"];
+			expect(Filter.include(files, ["*.md"])).toEqual(["README.md", "docs/guide.md"]);
+		});
+
+		it("should re-include files with negated globs", () => {
+			const files = ["dist/index.js", "dist/keep.js", "src/index.ts"];
+			expect(Filter.exclude(files, ["dist/**", "!dist/keep.js"])).toEqual(["dist/keep.js", "src/index.ts"]);
+		});
+
+		it("should match globs against absolute paths relative to the working directory", () => {
+			const files = [join(process.cwd(), "dist/index.js"), join(process.cwd(), "src/index.ts")];
+			expect(Filter.exclude(files, ["dist/**"])).toEqual([join(process.cwd(), "src/index.ts")]);
+		});
+
+		it("should treat directory globs as matching their contents in glob mode", () => {
+			const files = ["dist/index.js", "src/redist/index.ts"];
+			expect(Filter.exclude(files, ["dist/"], "glob")).toEqual(["src/redist/index.ts"]);
+			expect(Filter.exclude(files, ["dist/"])).toEqual([]);
+		});
+
+		it("should match literally in substring mode", () => {
+			const files = ["src/[id].ts", "src/index.ts"];
+			expect(Filter.exclude(files, ["[id]"], "substring")).toEqual(["src/index.ts"]);
+			expect(Filter.isGlob("[id]")).toBe(true);
+			expect(Filter.isGlob("dist/")).toBe(false);
+		});
+
+		it("should apply glob excludes in handlers", () => {
+			const handler = Biome.create({ exclude: ["**/*.gen.ts"] });
+			const result = handler(["src/index.ts", "src/api.gen.ts"]);
+			expect(result).toContain("src/index.ts");
+			expect(result).not.toContain("api.gen.ts");
+		});
+
 		it("should escape file paths for shell commands", () => {
 			const files = ["src/index.ts", "path/with spaces/file.ts"];
 			const result = Filter.shellEscape(files);
@@ -637,6 +1266,54 @@ describe("Utility classes", () => {
 			const result = Filter.shellEscape([]);
 			expect(result).toBe("");
 		});
+
+		it("should chunk file lists by escaped length and file count", () => {
+			// Each escaped file is 6 characters: 'a.ts'
+			const files = ["a.ts", "b.ts", "c.ts", "d.ts"];
+			expect(Filter.chunk(files)).toEqual([files]);
+			expect(Filter.chunk(files, { maxArgLength: 13 })).toEqual([
+				["a.ts", "b.ts"],
+				["c.ts", "d.ts"],
+			]);
+			expect(Filter.chunk(files, { chunkSize: 3 })).toEqual([["a.ts", "b.ts", "c.ts"], ["d.ts"]]);
+			expect(Filter.chunk(["long-name.ts"], { maxArgLength: 5 })).toEqual([["long-name.ts"]]);
+			expect(Filter.chunk([])).toEqual([]);
+		});
+
+		it("should classify files by their shebang", () => {
+			const dir = join(import.meta.dirname, "fixtures-shebang");
+			mkdirSync(dir, { recursive: true });
+			try {
+				const scripts = {
+					bash: "#!/bin/bash\n",
+					dash: "#!/bin/dash\n",
+					node: "#!/usr/bin/env -S node --no-warnings\r\n",
+					python: "#!/usr/bin/env python3\n",
+					plain: "echo hi\n",
+				};
+				for (const [name, content] of Object.entries(scripts)) {
+					writeFileSync(join(dir, name), content);
+				}
+
+				expect(Filter.shebang(join(dir, "bash"))).toBe("bash");
+				expect(Filter.shebang(join(dir, "dash"))).toBe("sh");
+				expect(Filter.shebang(join(dir, "node"))).toBe("node");
+				expect(Filter.shebang(join(dir, "python"))).toBeNull();
+				expect(Filter.shebang(join(dir, "plain"))).toBeNull();
+				expect(Filter.shebang(join(dir, "missing"))).toBeNull();
+
+				const files = Object.keys(scripts).map((name) => join(dir, name));
+				expect(Filter.byShebang(files, ["sh", "node"])).toEqual([join(dir, "dash"), join(dir, "node")]);
+			} finally {
+				rmSync(dir, { recursive: true });
+			}
+		});
+
+		it("should build one command per chunk", () => {
+			const build = (files: string) => `tool ${files}`;
+			expect(Filter.chunkCommand(["a.ts", "b.ts"], build)).toBe("tool 'a.ts' 'b.ts'");
+			expect(Filter.chunkCommand(["a.ts", "b.ts"], build, { chunkSize: 1 })).toEqual(["tool 'a.ts'", "tool 'b.ts'"]);
+		});
 	});
 
 	describe("Command", () => {
@@ -791,6 +1468,22 @@ describe("Configuration utilities", () => {
 			expect(result).not.toContain("custom/file.ts");
 		});
 
+		it("should replace handlers skipped through SAVVY_LINT_SKIP with no-ops", () => {
+			vi.stubEnv("SAVVY_LINT_SKIP", "markdown,typescript");
+			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+			try {
+				const config = createConfig({ ignoreFiles: false });
+
+				expect((config[Markdown.glob] as (f: readonly string[]) => string[])(["README.md"])).toEqual([]);
+				expect((config[TypeScript.glob] as (f: readonly string[]) => string[])(["src/index.ts"])).toEqual([]);
+				expect(config[Biome.glob]).toBeDefined();
+				expect(warn).toHaveBeenCalledWith("\u26A0 Skipped by SAVVY_LINT_SKIP: markdown, typescript");
+			} finally {
+				warn.mockRestore();
+				vi.unstubAllEnvs();
+			}
+		});
+
 		it("should include custom handlers", () => {
 			const customHandler = (files: readonly string[]): string => `custom-tool ${files.join(" ")}`;
 			const config = createConfig({
@@ -799,8 +1492,94 @@ describe("Configuration utilities", () => {
 				},
 			});
 
+			const handler = config["*.css"] as (f: readonly string[]) => string;
+			expect(handler(["src/styles.css"])).toBe("custom-tool src/styles.css");
+		});
+
+		it("should leave handlers unwrapped when ignore files are disabled", () => {
+			const customHandler = (files: readonly string[]): string => `custom-tool ${files.join(" ")}`;
+			const config = createConfig({
+				ignoreFiles: false,
+				custom: {
+					"*.css": customHandler,
+				},
+			});
+
 			expect(config["*.css"]).toBe(customHandler);
 		});
+
+		describe("ignore files", () => {
+			const root = join(FIXTURES_DIR, "ignore-workspace");
+			const pkg = join(root, "packages", "a");
+
+			beforeAll(() => {
+				mkdirSync(pkg, { recursive: true });
+				writeFileSync(join(root, ".savvylintignore"), "# vendored code\nvendor/\n/generated\n*.min.css\n");
+				writeFileSync(join(root, ".gitignore"), "dist\n");
+				writeFileSync(join(pkg, ".savvylintignore"), "fixtures/\n!/vendor/\n");
+
+				vi.mocked(findWorkspaceRootSync).mockReturnValue(root);
+				vi.mocked(getWorkspacePackagesSync).mockReturnValue([{ name: "@org/a", path: pkg }] as unknown as ReturnType<
+					typeof getWorkspacePackagesSync
+				>);
+				resetWorkspaceCache();
+			});
+
+			afterAll(() => {
+				vi.mocked(findWorkspaceRootSync).mockReturnValue(null);
+				vi.mocked(getWorkspacePackagesSync).mockReturnValue([]);
+				resetWorkspaceCache();
+				rmSync(root, { recursive: true, force: true });
+			});
+
+			it("should convert gitignore syntax to anchored globs", () => {
+				const escaped = root.replace(/[*?[\]{}()!+@]/g, "\\$&");
+				expect(Filter.ignoreFile(join(root, ".savvylintignore"))).toEqual([
+					`${escaped}/**/vendor/**`,
+					`${escaped}/generated`,
+					`${escaped}/generated/**`,
+					`${escaped}/**/*.min.css`,
+					`${escaped}/**/*.min.css/**`,
+				]);
+				expect(Filter.ignoreFile(join(root, "missing-ignore"))).toEqual([]);
+			});
+
+			it("should filter ignored files from every handler", () => {
+				const seen: string[][] = [];
+				const config = createConfig({
+					custom: {
+						"*": (files: readonly string[]) => {
+							seen.push([...files]);
+							return [];
+						},
+					},
+				});
+
+				const files = [
+					join(root, "src/index.ts"),
+					join(root, "vendor/lib.ts"),
+					join(root, "generated/api.ts"),
+					join(root, "src/generated/keep.ts"),
+					join(root, "styles/app.min.css"),
+					join(root, "dist/index.js"),
+					join(pkg, "fixtures/sample.ts"),
+					join(pkg, "vendor/patched.ts"),
+				];
+				(config["*"] as (f: readonly string[]) => string[])(files);
+
+				expect(seen).toEqual([
+					[join(root, "src/index.ts"), join(root, "src/generated/keep.ts"), join(pkg, "vendor/patched.ts")],
+				]);
+			});
+
+			it("should skip the handler when every file is ignored", () => {
+				// The fixture lives under __test__/fixtures, which Biome excludes by default
+				const config = createConfig({ ignoreFiles: [".savvylintignore"], biome: { exclude: [] } });
+				const handler = config[Biome.glob] as (f: readonly string[]) => string | string[];
+				expect(handler([join(root, "vendor/lib.ts")])).toEqual([]);
+				expect(handler([join(root, "dist/index.js")])).toContain("biome check");
+			});
+		});
 	});
 
 	describe("Preset", () => {
@@ -830,6 +1609,13 @@ describe("Configuration utilities", () => {
 
 				expect(config[Markdown.glob]).toBeDefined();
 			});
+
+			it("should pass ignoreFiles through to createConfig", () => {
+				const handler = (files: readonly string[]) => `stylelint ${files.join(" ")}`;
+				const config = Preset.minimal({ ignoreFiles: false, custom: { "*.css": handler } });
+
+				expect(config["*.css"]).toBe(handler);
+			});
 		});
 
 		describe("standard", () => {
@@ -904,4 +1690,236 @@ describe("Configuration utilities", () => {
 			});
 		});
 	});
+
+	describe("loadConfig", () => {
+		const dir = join(FIXTURES_DIR, "load-config");
+
+		beforeAll(() => {
+			mkdirSync(join(dir, "lib", "configs"), { recursive: true });
+			writeFileSync(join(dir, ".lintstagedrc"), "'*.md': markdownlint-cli2\n");
+			writeFileSync(join(dir, "custom.json"), '{"*.ts": ["tsc --noEmit"]}');
+		});
+
+		afterAll(() => {
+			rmSync(dir, { recursive: true, force: true });
+		});
+
+		it("should find the first config in search order", () => {
+			expect(findConfigPath(dir)).toBe(join(dir, ".lintstagedrc"));
+
+			writeFileSync(join(dir, "lib", "configs", "lint-staged.config.js"), "export default {};\n");
+			expect(findConfigPath(dir)).toBe(join(dir, "lib", "configs", "lint-staged.config.js"));
+			rmSync(join(dir, "lib", "configs", "lint-staged.config.js"));
+		});
+
+		it("should return null when no config exists", () => {
+			expect(findConfigPath(join(dir, "lib"))).toBeNull();
+		});
+
+		it("should parse YAML and JSON rc files", async () => {
+			expect((await loadConfig(join(dir, ".lintstagedrc"))).config).toEqual({ "*.md": "markdownlint-cli2" });
+			expect((await loadConfig(join(dir, "custom.json"))).config).toEqual({ "*.ts": ["tsc --noEmit"] });
+		});
+
+		it("should import JavaScript configs", async () => {
+			const file = join(dir, "lint-staged.config.mjs");
+			writeFileSync(file, "export default { '*.js': 'biome check' };\n");
+			const loaded = await loadConfig(file);
+			expect(loaded.path).toBe(file);
+			expect(loaded.config).toEqual({ "*.js": "biome check" });
+		});
+
+		it("should reject missing config files", async () => {
+			await expect(loadConfig(join(dir, "missing.json"))).rejects.toThrow("Config file not found");
+		});
+	});
+
+	describe("resolveTasks", () => {
+		const cwd = "/repo";
+
+		it("should match globs like lint-staged", () => {
+			const files = ["README.md", "docs/guide.md", "src/index.ts", ".github/workflows/ci.yml"];
+			expect(matchGlob("*.md", files, cwd)).toEqual(["/repo/README.md", "/repo/docs/guide.md"]);
+			expect(matchGlob("src/**/*.ts", files, cwd)).toEqual(["/repo/src/index.ts"]);
+			expect(matchGlob("**/*.yml", files, cwd)).toEqual(["/repo/.github/workflows/ci.yml"]);
+		});
+
+		it("should resolve functions, strings and sequential steps", async () => {
+			const tasks = await resolveTasks(
+				{
+					"*.ts": (files) => `tsc ${files.length}`,
+					"*.md": "markdownlint-cli2",
+					"*.json": [() => ["sort a", "sort b"], "biome check"],
+					"*.css": "stylelint",
+				},
+				["src/index.ts", "README.md", "package.json"],
+				cwd,
+			);
+
+			expect(tasks).toEqual([
+				{ glob: "*.ts", files: ["/repo/src/index.ts"], steps: [["tsc 1"]] },
+				{ glob: "*.md", files: ["/repo/README.md"], steps: [["markdownlint-cli2 '/repo/README.md'"]] },
+				{
+					glob: "*.json",
+					files: ["/repo/package.json"],
+					steps: [["sort a", "sort b"], ["biome check '/repo/package.json'"]],
+				},
+			]);
+		});
+	});
+
+	describe("describeConfig", () => {
+		it("should describe every glob and step of createConfig in order", () => {
+			const config = createConfig();
+			const resolved = describeConfig(config);
+
+			expect(resolved.createConfig).toBe(true);
+			expect(resolved.ignoreFiles).toEqual([...Filter.defaultIgnoreFiles]);
+			expect(resolved.globs.map((entry) => entry.glob)).toEqual(Object.keys(config));
+			for (const { glob, steps } of resolved.globs) {
+				const value = config[glob];
+				expect(steps).toHaveLength(Array.isArray(value) ? value.length : 1);
+			}
+			expect(JSON.parse(JSON.stringify(resolved))).toEqual(resolved);
+		});
+
+		it("should report resolved config paths, tools and excludes", () => {
+			const resolved = describeConfig(
+				createConfig({
+					packageJson: false,
+					markdown: false,
+					yaml: false,
+					pnpmWorkspace: false,
+					shellScripts: false,
+					typescript: false,
+					biome: { config: "lib/biome.json", exclude: ["vendor/"], patternMode: "glob" },
+					ignoreFiles: false,
+				}),
+			);
+
+			expect(resolved.ignoreFiles).toEqual([]);
+			expect(resolved.ignorePatterns).toEqual([]);
+			expect(resolved.globs.map((entry) => entry.glob)).toEqual([Biome.glob, ShellScripts.shebangGlob]);
+
+			const [step] = resolved.globs[0]?.steps ?? [];
+			expect(step).toMatchObject({
+				handler: "Biome.create",
+				config: "lib/biome.json",
+				excludes: ["vendor/"],
+				options: { flags: [], patternMode: "glob" },
+			});
+			expect(step?.tools.map((tool) => tool.name)).toEqual(["biome"]);
+			expect(resolved.globs[1]?.steps[0]).toMatchObject({
+				handler: "Biome.scriptCommand",
+				config: "lib/biome.json",
+				options: { shebang: ["node", "tsx"] },
+			});
+		});
+
+		it("should describe steps for sequential array entries", () => {
+			const resolved = describeConfig(createConfig({ biome: false, markdown: false, typescript: false }));
+			const yaml = resolved.globs.find((entry) => entry.glob === Yaml.glob);
+
+			expect(yaml?.steps.map((step) => step.handler)).toEqual(["Yaml.fmtCommand", "Yaml.create"]);
+			expect(yaml?.steps[0]?.excludes).toEqual([...Yaml.defaultExcludes]);
+		});
+
+		it("should describe custom and plain entries as opaque steps", () => {
+			const handler = (files: readonly string[]) => `stylelint ${files.join(" ")}`;
+			const fromOptions = describeConfig(Preset.minimal({ custom: { "*.css": handler } }));
+			expect(fromOptions.globs.find((entry) => entry.glob === "*.css")?.steps[0]?.handler).toBe("function");
+
+			const plain = describeConfig({ "*.md": "markdownlint-cli2", "*.ts": [handler, ["tsc", "eslint"]] });
+			expect(plain.createConfig).toBe(false);
+			expect(plain.globs).toEqual([
+				{
+					glob: "*.md",
+					steps: [
+						{ handler: "command", config: null, excludes: [], tools: [], options: { commands: ["markdownlint-cli2"] } },
+					],
+				},
+				{
+					glob: "*.ts",
+					steps: [
+						{ handler: "function", config: null, excludes: [], tools: [], options: {} },
+						{ handler: "command", config: null, excludes: [], tools: [], options: { commands: ["tsc", "eslint"] } },
+					],
+				},
+			]);
+		});
+	});
+
+	describe("migrateConfig", () => {
+		it("should map recognized commands to handler options", () => {
+			const result = migrateConfig({
+				"**/package.json": ["sort-package-json", "biome check --write --config-path=lib/biome.json"],
+				"*.{js,ts,json}": "npx biome check --write --no-errors-on-unmatched --vcs-enabled=true",
+				"**/*.md": "markdownlint-cli2 --config .markdownlint.json",
+				"**/*.{yml,yaml}": ["prettier --write"],
+				"**/*.sh": "chmod +x",
+				"*.{ts,tsx}": "tsc --noEmit -p tsconfig.build.json",
+			});
+
+			expect(result.preset).toBeNull();
+			expect(result.preserved).toEqual([]);
+			expect(result.migrated.map((entry) => entry.handler)).toEqual([
+				"packageJson",
+				"biome",
+				"markdown",
+				"yaml",
+				"shellScripts",
+				"typescript",
+			]);
+			expect(result.options).toEqual({
+				packageJson: { biomeConfig: "lib/biome.json" },
+				biome: { flags: ["--vcs-enabled=true"] },
+				markdown: { config: ".markdownlint.json", noFix: true },
+				pnpmWorkspace: false,
+				shellScripts: { makeExecutable: true },
+				yaml: { skipValidate: true },
+				typescript: { typecheckCommand: "tsc --noEmit -p tsconfig.build.json" },
+			});
+		});
+
+		it("should keep unrecognized entries under custom", () => {
+			const handler = (files: readonly string[]) => `eslint ${files.join(" ")}`;
+			const result = migrateConfig({
+				"*.{js,ts}": "biome check --write",
+				"*.css": "stylelint --fix",
+				"*.ts": handler,
+				"*.json": "biome format --write",
+				"*.md": ["markdownlint-cli2 --fix", "cspell"],
+			});
+
+			expect(result.migrated).toEqual([{ glob: "*.{js,ts}", handler: "biome" }]);
+			expect(result.preserved).toEqual(["*.css", "*.ts", "*.json", "*.md"]);
+			expect(result.options.custom).toEqual({
+				"*.css": "stylelint --fix",
+				"*.ts": handler,
+				"*.json": "biome format --write",
+				"*.md": ["markdownlint-cli2 --fix", "cspell"],
+			});
+		});
+
+		it("should use a preset when the recognized handlers match one", () => {
+			const minimal = migrateConfig({
+				"**/package.json": "sort-package-json",
+				"*.{js,ts,json}": "biome check --write",
+			});
+			expect(minimal.preset).toBe("minimal");
+			expect(minimal.options).toEqual({ packageJson: { skipFormat: true } });
+
+			const standard = migrateConfig({
+				"**/package.json": ["sort-package-json", "biome check --write"],
+				"*.{js,ts,json}": "biome check --write",
+				"**/*.md": "markdownlint-cli2 --fix",
+				"**/*.yaml": ["prettier --write", "yaml-lint"],
+				"pnpm-workspace.yaml": ["yq -i '.packages |= sort' pnpm-workspace.yaml", "prettier --write", "yaml-lint"],
+				"**/*.sh": "chmod -x",
+				"*.css": "stylelint --fix",
+			});
+			expect(standard.preset).toBe("standard");
+			expect(standard.options).toEqual({ custom: { "*.css": "stylelint --fix" } });
+		});
+	});
 });
@@ -29,6 +29,10 @@ import type { BaseHandlerOptions, LintStagedHandler } from "./types.js";
  * - `defaultExcludes` - Default patterns to exclude
  * - `handler` - Pre-configured handler with defaults
  * - `create()` - Factory method for custom configuration
+ *
+ * Built-in handlers return no commands while they are skipped through
+ * {@link Handler.skipEnvVar}. Custom steps can opt out the same way with
+ * {@link Handler.isSkipped}.
  */
 // biome-ignore lint/complexity/noStaticOnlyClass: Intentional pattern for TSDoc discoverability
 export abstract class Handler {
@@ -49,6 +53,60 @@ export abstract class Handler {
 	 */
 	static readonly handler: LintStagedHandler;
 
+	/**
+	 * Environment variable listing handlers to skip, e.g. `SAVVY_LINT_SKIP=markdown,typescript`.
+	 * @defaultValue `'SAVVY_LINT_SKIP'`
+	 */
+	static readonly skipEnvVar = "SAVVY_LINT_SKIP";
+
+	/**
+	 * Values of {@link Handler.skipEnvVar} that skip every handler.
+	 * @defaultValue `['1', 'true', 'all']`
+	 */
+	static readonly skipAllValues = ["1", "true", "all"] as const;
+
+	/**
+	 * Get the handlers skipped through {@link Handler.skipEnvVar}.
+	 *
+	 * @remarks
+	 * Names are the `createConfig` option keys, such as `markdown` or
+	 * `packageJson`. They are matched case-insensitively, ignoring `-` and
+	 * `_`, so `package-json` works too.
+	 *
+	 * @returns `'all'`, or the normalized names of the skipped handlers
+	 */
+	static getSkipped(): "all" | string[] {
+		const value = process.env[Handler.skipEnvVar]?.trim() ?? "";
+		if ((Handler.skipAllValues as readonly string[]).includes(value.toLowerCase())) {
+			return "all";
+		}
+		return value
+			.split(",")
+			.map((name) => Handler.normalizeName(name))
+			.filter(Boolean);
+	}
+
+	/**
+	 * Check whether a handler is skipped through {@link Handler.skipEnvVar}.
+	 *
+	 * @param name - The handler name, e.g. `markdown` or a custom step's name
+	 * @returns `true` if every handler or this one is skipped
+	 */
+	static isSkipped(name: string): boolean {
+		const skipped = Handler.getSkipped();
+		return skipped === "all" || skipped.includes(Handler.normalizeName(name));
+	}
+
+	/**
+	 * Normalize a handler name for comparison.
+	 *
+	 * @param name - The handler name
+	 * @returns The lowercased name without whitespace, `-` and `_`
+	 */
+	private static normalizeName(name: string): string {
+		return name.replace(/[\s_-]/g, "").toLowerCase();
+	}
+
 	/**
 	 * Factory method to create a handler with custom options.
 	 *
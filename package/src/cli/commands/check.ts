@@ -6,19 +6,31 @@
 import { isDeepStrictEqual } from "node:util";
 import { Command, Options } from "@effect/cli";
 import { FileSystem } from "@effect/platform";
-import type { SectionBlock } from "@savvy-web/silk-effects";
-import { CheckResult, ConfigDiscovery, ManagedSection, ToolDefinition, ToolDiscovery } from "@savvy-web/silk-effects";
-import { Effect } from "effect";
-import { parse } from "jsonc-effect";
+import {
+	BiomeSchemaSync,
+	ConfigDiscovery,
+	ManagedSection,
+	ToolDefinition,
+	ToolDiscovery,
+} from "@savvy-web/silk-effects";
+import { Console, Effect } from "effect";
+import { applyEdits, modify, parse } from "jsonc-effect";
+import { CONFIG_SEARCH_PATHS } from "../../config/loadConfig.js";
 import { Biome } from "../../handlers/Biome.js";
+import type { HookBackend } from "../hooks.js";
+import { resolveHookBackend } from "../hooks.js";
+import type { GitHook, HookSpec } from "../sections.js";
 import {
-	HUSKY_HOOK_PATH,
+	DEFAULT_CONFIG_PATH,
+	JSONC_FORMAT,
 	MARKDOWNLINT_CONFIG_PATH,
-	POST_CHECKOUT_HOOK_PATH,
-	POST_MERGE_HOOK_PATH,
-	SavvyLintSectionDef,
-	preCommitBlock,
-	shellScriptsBlock,
+	commitMsgSpec,
+	extractCiEnvVars,
+	extractConfigPath,
+	extractPrePushCommand,
+	preCommitSpec,
+	prePushSpec,
+	shellScriptsSpec,
 } from "../sections.js";
 import { MARKDOWNLINT_CONFIG, MARKDOWNLINT_SCHEMA } from "../templates/markdownlint.gen.js";
 
@@ -34,24 +46,6 @@ const WARNING = "\u26A0";
 /** Unicode bullet symbol. */
 const BULLET = "\u2022";
 
-/** Possible lint-staged configuration file names, in priority order. */
-const CONFIG_FILES = [
-	"lint-staged.config.ts",
-	"lint-staged.config.js",
-	"lint-staged.config.mjs",
-	"lint-staged.config.cjs",
-	".lintstagedrc",
-	".lintstagedrc.json",
-	".lintstagedrc.yaml",
-	".lintstagedrc.yml",
-	".lintstagedrc.js",
-	".lintstagedrc.cjs",
-	".lintstagedrc.mjs",
-] as const;
-
-/** Paths to search for config files. */
-const CONFIG_SEARCH_PATHS = ["lib/configs/lint-staged.config.ts", "lib/configs/lint-staged.config.js", ...CONFIG_FILES];
-
 /**
  * Find the first existing config file.
  *
@@ -87,66 +81,49 @@ function findConfig(discovery: ConfigDiscovery["Type"], names: readonly string[]
 }
 
 /**
- * Extract the config path from the managed section.
- *
- * @param managedContent - The content between managed section markers
- * @returns The config path found, or null if not found
- */
-function extractConfigPathFromManaged(managedContent: string): string | null {
-	// Look for: lint-staged --config "$ROOT/{path}"
-	const match = managedContent.match(/lint-staged --config "\$ROOT\/([^"]+)"/);
-	return match ? match[1] : null;
-}
-
-/**
- * Check if a hook's managed section is up-to-date against an expected block.
- *
- * @param section - ManagedSection service
- * @param hookPath - Path to the hook file
- * @param block - The expected section block
- * @returns Object with status information
- */
-function checkHookManagedSection(section: ManagedSection["Type"], hookPath: string, block: SectionBlock) {
-	return Effect.gen(function* () {
-		const result = yield* section.check(hookPath, block);
-		return CheckResult.$match(result, {
-			Found: ({ isUpToDate }) => ({ found: true, isUpToDate, needsUpdate: !isUpToDate }),
-			NotFound: () => ({ found: false, isUpToDate: false, needsUpdate: false }),
-		});
-	});
-}
-
-/**
- * Check if the pre-commit managed section is up-to-date.
+ * Check if the pre-commit hook's savvy-lint invocation is up-to-date.
  *
- * @param section - ManagedSection service
- * @param hookPath - Path to the hook file
- * @returns Object with isUpToDate flag and any differences
+ * @param backend - The hook backend
+ * @returns Object with isUpToDate flag, and the config path and extra CI env vars the hook uses
  */
-function checkManagedSectionStatus(section: ManagedSection["Type"], hookPath: string) {
+function checkPreCommitStatus(backend: HookBackend) {
 	return Effect.gen(function* () {
-		const existing = yield* section.read(hookPath, SavvyLintSectionDef);
-
-		if (existing === null) {
-			return { isUpToDate: false, configPath: null as string | null, needsUpdate: false, found: false };
+		const { exists, installed } = yield* backend.status(preCommitSpec(DEFAULT_CONFIG_PATH));
+
+		if (installed === null) {
+			return {
+				exists,
+				isUpToDate: false,
+				configPath: null as string | null,
+				ciEnvVars: [] as string[],
+				needsUpdate: false,
+				found: false,
+			};
 		}
 
-		const configPath = extractConfigPathFromManaged(existing.text);
+		const configPath = extractConfigPath(installed);
+		const ciEnvVars = extractCiEnvVars(installed);
 
 		if (!configPath) {
-			return { isUpToDate: false, configPath: null as string | null, needsUpdate: true, found: true };
+			return {
+				exists,
+				isUpToDate: false,
+				configPath: null as string | null,
+				ciEnvVars,
+				needsUpdate: true,
+				found: true,
+			};
 		}
 
-		const result = yield* section.check(hookPath, preCommitBlock(configPath));
-		return CheckResult.$match(result, {
-			Found: ({ isUpToDate }) => ({
-				isUpToDate,
-				configPath: configPath as string | null,
-				needsUpdate: !isUpToDate,
-				found: true,
-			}),
-			NotFound: () => ({ isUpToDate: false, configPath: null as string | null, needsUpdate: false, found: false }),
-		});
+		const { isUpToDate } = yield* backend.status(preCommitSpec(configPath, ciEnvVars));
+		return {
+			exists,
+			isUpToDate,
+			configPath: configPath as string | null,
+			ciEnvVars,
+			needsUpdate: !isUpToDate,
+			found: true,
+		};
 	});
 }
 
@@ -206,75 +183,189 @@ function checkBiomeSchemas() {
 	});
 }
 
+/**
+ * Detect the tools used by the default handlers and their config files.
+ *
+ * @param td - ToolDiscovery service
+ * @param discovery - ConfigDiscovery service
+ * @returns Availability and config path per tool
+ */
+function detectTools(td: ToolDiscovery["Type"], discovery: ConfigDiscovery["Type"]) {
+	return Effect.gen(function* () {
+		const biomeAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "biome" }));
+		const biomeConfig = yield* findConfig(discovery, ["biome.jsonc", "biome.json"]);
+
+		const markdownAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "markdownlint-cli2" }));
+		const markdownConfig = yield* findConfig(discovery, [
+			".markdownlint-cli2.jsonc",
+			".markdownlint-cli2.json",
+			".markdownlint-cli2.yaml",
+			".markdownlint-cli2.cjs",
+			".markdownlint.jsonc",
+			".markdownlint.json",
+			".markdownlint.yaml",
+		]);
+
+		const tsgoAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "tsgo" }));
+		const tscAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "tsc" }));
+		const compiler = tsgoAvailable ? "tsgo" : tscAvailable ? "tsc" : null;
+
+		return {
+			biome: { available: biomeAvailable, config: biomeConfig },
+			markdownlint: { available: markdownAvailable, config: markdownConfig },
+			typescript: { available: compiler !== null, compiler },
+		};
+	});
+}
+
+/**
+ * Convert a logged warning into a single-line message for JSON output.
+ *
+ * @param warning - Warning text including the glyph and indented hint line
+ * @returns The message without the glyph, with the hint joined onto one line
+ */
+function toIssueMessage(warning: string): string {
+	return warning.replace(`${WARNING}  `, "").replace(/\n\s+/g, " ").trim();
+}
+
+/**
+ * Convert an opt-in hook status for JSON output.
+ *
+ * @param status - The hook status, or undefined if the hook doesn't exist
+ * @returns The hook's path and state, or null
+ */
+function hookReport(status: { path: string; found: boolean; isUpToDate: boolean } | undefined) {
+	return status === undefined ? null : { path: status.path, found: status.found, isUpToDate: status.isUpToDate };
+}
+
+const formatOption = Options.choice("format", ["text", "json"]).pipe(
+	Options.withDescription("Output format: human-readable text or a JSON report"),
+	Options.withDefault("text" as const),
+);
+
+const strictOption = Options.boolean("strict").pipe(
+	Options.withDescription("Exit non-zero when any issues are found (for CI)"),
+	Options.withDefault(false),
+);
+
+/**
+ * Update the markdownlint config `$schema` in place, leaving its rules untouched.
+ *
+ * @param fs - FileSystem service
+ * @returns Effect that rewrites the `$schema` property
+ */
+function updateMarkdownlintSchema(fs: FileSystem.FileSystem) {
+	return Effect.gen(function* () {
+		const text = yield* fs.readFileString(MARKDOWNLINT_CONFIG_PATH);
+		const edits = yield* modify(text, ["$schema"], MARKDOWNLINT_SCHEMA, { formattingOptions: JSONC_FORMAT });
+		yield* fs.writeFileString(MARKDOWNLINT_CONFIG_PATH, yield* applyEdits(text, edits));
+	});
+}
+
+const fixOption = Options.boolean("fix").pipe(
+	Options.withDescription("Repair outdated managed sections and $schema URLs, leaving everything else untouched"),
+	Options.withDefault(false),
+);
+
 const quietOption = Options.boolean("quiet").pipe(
 	Options.withAlias("q"),
 	Options.withDescription("Only output warnings (for postinstall usage)"),
 	Options.withDefault(false),
 );
 
+const checkOptions = { quiet: quietOption, format: formatOption, strict: strictOption, fix: fixOption };
+
 /**
  * Check command implementation.
  *
  * @remarks
  * Validates the current lint-staged setup and displays detected settings.
  * With --quiet flag, only outputs warnings (for postinstall usage).
+ * With `--format json`, prints a single JSON report to stdout instead
+ * (not combinable with --fix).
+ * With --strict, exits non-zero when any issues are found.
+ * With --fix (doctor mode), repairs outdated managed sections and `$schema`
+ * URLs in place and prints a summary, without touching the lint-staged
+ * config, hook bodies outside the managed sections, or markdownlint rules.
  */
-export const checkCommand = Command.make("check", { quiet: quietOption }, ({ quiet }) =>
+export const checkCommand = Command.make("check", checkOptions, ({ quiet, format, strict, fix }) =>
 	Effect.gen(function* () {
 		const fs = yield* FileSystem.FileSystem;
 		const section = yield* ManagedSection;
 		const td = yield* ToolDiscovery;
 		const discovery = yield* ConfigDiscovery;
 
+		if (fix && format === "json") {
+			return yield* Effect.fail(
+				new Error("--fix reports its repairs as text and cannot be combined with --format json"),
+			);
+		}
+
 		const warnings: string[] = [];
 
 		// Check config file
 		const foundConfig = yield* findConfigFile(fs);
 
-		// Check husky hook
-		const hasHuskyHook = yield* fs.exists(HUSKY_HOOK_PATH);
-
-		// Check managed section status
-		let managedStatus: { isUpToDate: boolean; configPath: string | null; needsUpdate: boolean; found: boolean } = {
-			isUpToDate: false,
-			configPath: null,
-			needsUpdate: false,
-			found: false,
-		};
-
-		if (hasHuskyHook) {
-			managedStatus = yield* checkManagedSectionStatus(section, HUSKY_HOOK_PATH);
+		// Check pre-commit hook through the detected hook manager
+		const backend = yield* resolveHookBackend("auto", fs, section);
+		const preCommitPath = backend.location("pre-commit");
+		const managedStatus = yield* checkPreCommitStatus(backend);
+		const hasPreCommitHook = managedStatus.exists;
 
+		if (hasPreCommitHook) {
 			if (managedStatus.found && managedStatus.needsUpdate) {
 				warnings.push(
-					`${WARNING}  Your ${HUSKY_HOOK_PATH} managed section is outdated.\n   Run 'savvy-lint init' to update it (preserves your custom hooks).`,
+					`${WARNING}  Your ${preCommitPath} ${backend.entry} is outdated.\n   Run 'savvy-lint init' to update it (preserves your custom hooks).`,
 				);
 			} else if (!managedStatus.found) {
 				warnings.push(
-					`${WARNING}  Your ${HUSKY_HOOK_PATH} does not have a savvy-lint managed section.\n   Run 'savvy-lint init' to add it.`,
+					`${WARNING}  Your ${preCommitPath} does not have a savvy-lint ${backend.entry}.\n   Run 'savvy-lint init' to add it.`,
 				);
 			}
 		} else {
-			warnings.push(`${WARNING}  No husky pre-commit hook found.\n   Run 'savvy-lint init' to create it.`);
+			warnings.push(`${WARNING}  No ${backend.name} pre-commit hook found.\n   Run 'savvy-lint init' to create it.`);
 		}
 
 		if (!foundConfig) {
 			warnings.push(`${WARNING}  No lint-staged config file found.\n   Run 'savvy-lint init' to create one.`);
 		}
 
-		// Check shell script hooks (post-checkout, post-merge)
-		const shellHookPaths = [POST_CHECKOUT_HOOK_PATH, POST_MERGE_HOOK_PATH] as const;
-		const shellHookStatuses: { path: string; found: boolean; isUpToDate: boolean; needsUpdate: boolean }[] = [];
-
-		for (const hookPath of shellHookPaths) {
-			const hookExists = yield* fs.exists(hookPath);
-			if (hookExists) {
-				const status = yield* checkHookManagedSection(section, hookPath, shellScriptsBlock());
-				shellHookStatuses.push({ path: hookPath, ...status });
+		// Check the other managed hooks (post-checkout, post-merge, commit-msg, pre-push)
+		const hookStatuses: {
+			hook: Exclude<GitHook, "pre-commit">;
+			spec: HookSpec;
+			path: string;
+			found: boolean;
+			isUpToDate: boolean;
+			needsUpdate: boolean;
+		}[] = [];
+
+		for (const hook of ["post-checkout", "post-merge", "commit-msg", "pre-push"] as const) {
+			let spec =
+				hook === "commit-msg" ? commitMsgSpec() : hook === "pre-push" ? prePushSpec("") : shellScriptsSpec(hook);
+			let status = yield* backend.status(spec);
+
+			// The pre-push pipeline is configurable, so compare against the installed one
+			if (hook === "pre-push" && status.installed !== null) {
+				spec = prePushSpec(extractPrePushCommand(status.installed));
+				status = yield* backend.status(spec);
+			}
 
-				if (status.found && status.needsUpdate) {
+			if (status.exists) {
+				const found = status.installed !== null;
+				const hookPath = backend.location(hook);
+				hookStatuses.push({
+					hook,
+					spec,
+					path: hookPath,
+					found,
+					isUpToDate: status.isUpToDate,
+					needsUpdate: found && !status.isUpToDate,
+				});
+
+				if (found && !status.isUpToDate) {
 					warnings.push(
-						`${WARNING}  Your ${hookPath} managed section is outdated.\n   Run 'savvy-lint init' to update it (preserves your custom hooks).`,
+						`${WARNING}  Your ${hookPath} ${backend.entry} is outdated.\n   Run 'savvy-lint init' to update it (preserves your custom hooks).`,
 					);
 				}
 			}
@@ -316,6 +407,125 @@ export const checkCommand = Command.make("check", { quiet: quietOption }, ({ qui
 			}
 		}
 
+		const hasHookIssues = hookStatuses.some((s) => s.found && s.needsUpdate);
+		const hasMarkdownlintIssues = hasMarkdownlintConfig && !markdownlintStatus.isUpToDate;
+		const hasBiomeSchemaIssues = biomeSchemaStatus.statuses.some((s) => !s.matches);
+		const hasIssues =
+			!foundConfig ||
+			!hasPreCommitHook ||
+			!managedStatus.found ||
+			managedStatus.needsUpdate ||
+			hasHookIssues ||
+			hasMarkdownlintIssues ||
+			hasBiomeSchemaIssues;
+		const strictFailure = Effect.fail(new Error("Lint-staged configuration has issues (--strict)"));
+
+		// Doctor mode: repair only what is outdated, then report what remains
+		if (fix) {
+			const repairs: string[] = [];
+			const remaining: string[] = [];
+
+			if (managedStatus.found && managedStatus.needsUpdate) {
+				const configPath = managedStatus.configPath ?? foundConfig ?? DEFAULT_CONFIG_PATH;
+				repairs.push(yield* backend.install(preCommitSpec(configPath, managedStatus.ciEnvVars), false));
+			}
+
+			for (const status of hookStatuses) {
+				if (status.found && status.needsUpdate) {
+					repairs.push(yield* backend.install(status.spec, false));
+				}
+			}
+
+			const version = process.env.__BIOME_PEER_VERSION__;
+			if (hasBiomeSchemaIssues && version) {
+				const syncer = yield* BiomeSchemaSync;
+				const synced = yield* syncer.sync(version).pipe(
+					Effect.catchTag("BiomeSyncError", (e) =>
+						Effect.sync(() => {
+							remaining.push(`Could not sync biome $schema: ${e.message}`);
+							return { current: [] as string[], updated: [] as string[] };
+						}),
+					),
+				);
+				for (const configPath of synced.updated) {
+					repairs.push(`Updated biome $schema in ${configPath}`);
+				}
+			}
+
+			if (hasMarkdownlintConfig && !markdownlintStatus.schemaMatches) {
+				yield* updateMarkdownlintSchema(fs);
+				repairs.push(`Updated $schema in ${MARKDOWNLINT_CONFIG_PATH}`);
+			}
+
+			// Not repaired by doctor mode: these need 'savvy-lint init'
+			if (!foundConfig) remaining.push("No lint-staged config file found (run 'savvy-lint init')");
+			if (!hasPreCommitHook) remaining.push(`No ${backend.name} pre-commit hook found (run 'savvy-lint init')`);
+			if (hasPreCommitHook && !managedStatus.found) {
+				remaining.push(`${preCommitPath} has no savvy-lint ${backend.entry} (run 'savvy-lint init')`);
+			}
+			if (hasMarkdownlintConfig && !markdownlintStatus.configMatches) {
+				remaining.push(
+					`${MARKDOWNLINT_CONFIG_PATH}: config rules differ from template (run 'savvy-lint init --force')`,
+				);
+			}
+
+			if (repairs.length === 0) {
+				yield* Effect.log(`${CHECK_MARK} Nothing to repair`);
+			}
+			for (const repair of repairs) {
+				yield* Effect.log(`${CHECK_MARK} ${repair}`);
+			}
+			for (const issue of remaining) {
+				yield* Effect.log(`${WARNING} ${issue}`);
+			}
+
+			if (strict && remaining.length > 0) {
+				return yield* strictFailure;
+			}
+			return;
+		}
+
+		// JSON mode: one machine-readable report on stdout
+		if (format === "json") {
+			const tools = yield* detectTools(td, discovery);
+			const report = {
+				ok: !hasIssues,
+				config: { path: foundConfig },
+				hooks: {
+					backend: backend.name,
+					preCommit: {
+						path: preCommitPath,
+						exists: hasPreCommitHook,
+						managedSection: hasPreCommitHook
+							? {
+									found: managedStatus.found,
+									isUpToDate: managedStatus.isUpToDate,
+									configPath: managedStatus.configPath,
+								}
+							: null,
+					},
+					shellHooks: hookStatuses
+						.filter(({ hook }) => hook === "post-checkout" || hook === "post-merge")
+						.map(({ path, found, isUpToDate }) => ({ path, found, isUpToDate })),
+					commitMsg: hookReport(hookStatuses.find(({ hook }) => hook === "commit-msg")),
+					prePush: hookReport(hookStatuses.find(({ hook }) => hook === "pre-push")),
+				},
+				tools,
+				markdownlint: { path: MARKDOWNLINT_CONFIG_PATH, ...markdownlintStatus },
+				biomeSchemas: biomeSchemaStatus.statuses,
+				issues: warnings.map(toIssueMessage),
+			};
+			yield* Console.log(JSON.stringify(report, null, 2));
+
+			// Set the exit code rather than failing, so the error log does not follow the JSON on stdout
+			if (strict && hasIssues) {
+				yield* Effect.sync(() => {
+					process.exitCode = 1;
+				});
+			}
+			return;
+		}
+
 		// Quiet mode: only output warnings
 		if (quiet) {
 			if (warnings.length > 0) {
@@ -323,6 +533,9 @@ export const checkCommand = Command.make("check", { quiet: quietOption }, ({ qui
 					yield* Effect.log(warning);
 				}
 			}
+			if (strict && hasIssues) {
+				return yield* strictFailure;
+			}
 			return;
 		}
 
@@ -336,28 +549,29 @@ export const checkCommand = Command.make("check", { quiet: quietOption }, ({ qui
 			yield* Effect.log(`${CROSS_MARK} No lint-staged config file found`);
 		}
 
-		// Husky hook status
-		if (hasHuskyHook) {
-			yield* Effect.log(`${CHECK_MARK} Husky hook: ${HUSKY_HOOK_PATH}`);
+		// Pre-commit hook status
+		if (hasPreCommitHook) {
+			yield* Effect.log(`${CHECK_MARK} Pre-commit hook (${backend.name}): ${preCommitPath}`);
 		} else {
-			yield* Effect.log(`${CROSS_MARK} No husky pre-commit hook found`);
+			yield* Effect.log(`${CROSS_MARK} No ${backend.name} pre-commit hook found`);
 		}
 
 		// Managed section status
-		if (hasHuskyHook) {
+		if (hasPreCommitHook) {
+			const label = `${backend.entry.charAt(0).toUpperCase()}${backend.entry.slice(1)}`;
 			if (managedStatus.found) {
 				if (managedStatus.isUpToDate) {
-					yield* Effect.log(`${CHECK_MARK} Managed section: up-to-date`);
+					yield* Effect.log(`${CHECK_MARK} ${label}: up-to-date`);
 				} else {
-					yield* Effect.log(`${WARNING} Managed section: outdated (run 'savvy-lint init' to update)`);
+					yield* Effect.log(`${WARNING} ${label}: outdated (run 'savvy-lint init' to update)`);
 				}
 			} else {
-				yield* Effect.log(`${BULLET} Managed section: not found (run 'savvy-lint init' to add)`);
+				yield* Effect.log(`${BULLET} ${label}: not found (run 'savvy-lint init' to add)`);
 			}
 		}
 
-		// Shell script hook statuses
-		for (const status of shellHookStatuses) {
+		// Other hook statuses
+		for (const status of hookStatuses) {
 			if (status.found) {
 				if (status.isUpToDate) {
 					yield* Effect.log(`${CHECK_MARK} ${status.path}: up-to-date`);
@@ -370,38 +584,23 @@ export const checkCommand = Command.make("check", { quiet: quietOption }, ({ qui
 		// Tool availability
 		yield* Effect.log("\nTool availability:");
 
-		const biomeAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "biome" }));
-		const biomeConfig = yield* findConfig(discovery, ["biome.jsonc", "biome.json"]);
-		if (biomeAvailable) {
-			const configInfo = biomeConfig ? ` (config: ${biomeConfig})` : "";
+		const tools = yield* detectTools(td, discovery);
+		if (tools.biome.available) {
+			const configInfo = tools.biome.config ? ` (config: ${tools.biome.config})` : "";
 			yield* Effect.log(`  ${CHECK_MARK} Biome${configInfo}`);
 		} else {
 			yield* Effect.log(`  ${BULLET} Biome: not installed`);
 		}
 
-		const markdownAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "markdownlint-cli2" }));
-		const markdownConfig = yield* findConfig(discovery, [
-			".markdownlint-cli2.jsonc",
-			".markdownlint-cli2.json",
-			".markdownlint-cli2.yaml",
-			".markdownlint-cli2.cjs",
-			".markdownlint.jsonc",
-			".markdownlint.json",
-			".markdownlint.yaml",
-		]);
-		if (markdownAvailable) {
-			const configInfo = markdownConfig ? ` (config: ${markdownConfig})` : "";
+		if (tools.markdownlint.available) {
+			const configInfo = tools.markdownlint.config ? ` (config: ${tools.markdownlint.config})` : "";
 			yield* Effect.log(`  ${CHECK_MARK} markdownlint-cli2${configInfo}`);
 		} else {
 			yield* Effect.log(`  ${BULLET} markdownlint-cli2: not installed`);
 		}
 
-		const tsgoAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "tsgo" }));
-		const tscAvailable = yield* td.isAvailable(ToolDefinition.make({ name: "tsc" }));
-		if (tsgoAvailable) {
-			yield* Effect.log(`  ${CHECK_MARK} TypeScript (tsgo)`);
-		} else if (tscAvailable) {
-			yield* Effect.log(`  ${CHECK_MARK} TypeScript (tsc)`);
+		if (tools.typescript.compiler !== null) {
+			yield* Effect.log(`  ${CHECK_MARK} TypeScript (${tools.typescript.compiler})`);
 		} else {
 			yield* Effect.log(`  ${BULLET} TypeScript: not installed`);
 		}
@@ -431,20 +630,11 @@ export const checkCommand = Command.make("check", { quiet: quietOption }, ({ qui
 
 		// Overall status
 		yield* Effect.log("");
-		const hasShellHookIssues = shellHookStatuses.some((s) => s.found && s.needsUpdate);
-		const hasMarkdownlintIssues = hasMarkdownlintConfig && !markdownlintStatus.isUpToDate;
-		const hasBiomeSchemaIssues = biomeSchemaStatus.statuses.some((s) => !s.matches);
-		const hasIssues =
-			!foundConfig ||
-			!hasHuskyHook ||
-			!managedStatus.found ||
-			managedStatus.needsUpdate ||
-			hasShellHookIssues ||
-			hasMarkdownlintIssues ||
-			hasBiomeSchemaIssues;
-
 		if (hasIssues) {
 			yield* Effect.log(`${WARNING} Some issues found. Run 'savvy-lint init' to fix.`);
+			if (strict) {
+				return yield* strictFailure;
+			}
 		} else {
 			yield* Effect.log(`${CHECK_MARK} Lint-staged is configured correctly.`);
 		}
@@ -0,0 +1,163 @@
+/**
+ * Explain command - show which configured handlers apply to a file.
+ *
+ * @remarks
+ * Loads the lint-staged config and, for one path, prints every glob that
+ * matches and whether each step keeps or excludes the file, along with the
+ * config file, tools and commands it resolved. Nothing is executed.
+ *
+ * @internal
+ */
+import { relative, resolve } from "node:path";
+import { Args, Command, Options } from "@effect/cli";
+import { Effect, Option } from "effect";
+import type { ConfigStep } from "../../config/createConfig.js";
+import { createStep, getConfigSteps } from "../../config/createConfig.js";
+import type { ResolvedStep } from "../../config/describeConfig.js";
+import { describeConfig } from "../../config/describeConfig.js";
+import { loadConfig } from "../../config/loadConfig.js";
+import { matchGlob } from "../../config/resolveTasks.js";
+import { Handler } from "../../Handler.js";
+import { Biome } from "../../handlers/Biome.js";
+import { ShellScripts } from "../../handlers/ShellScripts.js";
+import type { PatternMode } from "../../types.js";
+import { Filter } from "../../utils/Filter.js";
+
+/** Unicode checkmark symbol. */
+const CHECK_MARK = "\u2713";
+
+/** Unicode bullet symbol. */
+const BULLET = "\u2022";
+
+const fileArg = Args.file({ name: "file", exists: "yes" });
+
+const configOption = Options.file("config").pipe(
+	Options.withAlias("c"),
+	Options.withDescription("Path to the lint-staged config (defaults to the same search as 'check')"),
+	Options.optional,
+);
+
+/**
+ * Built-in steps whose handler formats or validates files in process, writing
+ * them, instead of returning commands. They are never called.
+ */
+const IN_PROCESS_STEPS: ReadonlySet<ConfigStep["handler"]> = new Set([
+	"PackageJson.create",
+	"PnpmWorkspace.create",
+	"Yaml.create",
+]);
+
+/**
+ * Build the commands a built-in step returns for a file.
+ *
+ * @remarks
+ * Calls the step's handler, which for every step outside
+ * {@link IN_PROCESS_STEPS} only looks up tools and builds command strings.
+ *
+ * @param step - The recorded step
+ * @param file - Absolute path of the file
+ * @returns The commands, or an explanation of why none are shown
+ */
+function stepCommands(step: ConfigStep, file: string): string[] {
+	if (IN_PROCESS_STEPS.has(step.handler)) {
+		return ["(runs in process and writes files, not called)"];
+	}
+
+	try {
+		const result = createStep(step)([file]);
+		if (typeof result !== "string" && !Array.isArray(result)) {
+			return ["(asynchronous handler, not called)"];
+		}
+		return [result].flat();
+	} catch (error) {
+		return [`(no command: ${error instanceof Error ? error.message : String(error)})`];
+	}
+}
+
+/**
+ * Check whether a built-in step keeps a file, from its description alone.
+ *
+ * @param step - The described step
+ * @param file - Absolute path of the file
+ * @returns The reason the step drops the file, or null if it keeps it
+ */
+function excludedBy(step: ResolvedStep, file: string): string | null {
+	// Built-in steps are named `Class.method`; the class name is also the skip name
+	const [handlerClass = "", method] = step.handler.split(".");
+	if (method !== undefined && Handler.isSkipped(handlerClass)) return Handler.skipEnvVar;
+
+	const mode = (step.options.patternMode as PatternMode | undefined) ?? "auto";
+	if (Filter.exclude([file], step.excludes, mode).length === 0) return "excludes";
+
+	if (step.handler.startsWith("ShellScripts.") && !ShellScripts.isShellScript(file)) return "shebang";
+	if (step.handler === "Biome.scriptCommand" && Filter.byShebang([file], Biome.shebangInterpreters).length === 0) {
+		return "shebang";
+	}
+	return null;
+}
+
+/**
+ * Explain command implementation.
+ *
+ * @remarks
+ * Steps are read from {@link describeConfig}. For steps recorded by
+ * `createConfig`, the commands come from handlers that only build strings
+ * (see {@link stepCommands}); no command runs and no file is modified.
+ * Configs not built by `createConfig` only show their command strings;
+ * their functions are opaque.
+ */
+export const explainCommand = Command.make("explain", { config: configOption, file: fileArg }, ({ config, file }) =>
+	Effect.gen(function* () {
+		const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+		const loaded = yield* Effect.tryPromise({ try: () => loadConfig(Option.getOrUndefined(config)), catch: toError });
+		const resolved = yield* Effect.try({ try: () => describeConfig(loaded.config), catch: toError });
+		const recorded = getConfigSteps(loaded.config) ?? {};
+
+		const absolute = resolve(file);
+		const matched = resolved.globs.filter(({ glob }) => matchGlob(glob, [absolute]).length > 0);
+		const ignored = Filter.exclude([absolute], resolved.ignorePatterns, "glob").length === 0;
+
+		yield* Effect.log(`Config: ${relative(process.cwd(), loaded.path)}`);
+		yield* Effect.log(`File: ${file}`);
+		yield* Effect.log(`Matched ${matched.length} of ${resolved.globs.length} glob(s)`);
+		if (ignored) {
+			yield* Effect.log(`Ignored by ${resolved.ignoreFiles.join(", ")}: no step receives the file`);
+		}
+
+		for (const { glob, steps } of matched) {
+			yield* Effect.log(`\n${glob}`);
+
+			for (const [index, step] of steps.entries()) {
+				const label = `${steps.length > 1 ? `step ${index + 1}: ` : ""}${step.handler}`;
+
+				if (step.handler === "function") {
+					yield* Effect.log(`  ${BULLET} ${label} (not called)`);
+					continue;
+				}
+
+				const reason = ignored ? "ignore files" : excludedBy(step, absolute);
+				if (reason !== null) {
+					yield* Effect.log(`  ${BULLET} ${label} excluded (${reason})`);
+					continue;
+				}
+
+				yield* Effect.log(`  ${CHECK_MARK} ${label} included`);
+				if (step.config !== null) {
+					yield* Effect.log(`      config: ${step.config}`);
+				}
+				for (const tool of step.tools) {
+					yield* Effect.log(`      tool: ${tool.name} (${tool.available ? (tool.source ?? "found") : "not found"})`);
+				}
+				for (const command of (step.options.commands as string[] | undefined) ?? []) {
+					yield* Effect.log(`      ${command} ${Filter.shellEscape([absolute])}`);
+				}
+				const recordedStep = recorded[glob]?.[index];
+				if (recordedStep !== undefined) {
+					for (const command of stepCommands(recordedStep, absolute)) {
+						yield* Effect.log(`      ${command}`);
+					}
+				}
+			}
+		}
+	}),
+);
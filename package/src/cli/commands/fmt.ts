@@ -9,21 +9,15 @@
  * @internal
  */
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
-import { Args, Command } from "@effect/cli";
-import { Effect } from "effect";
+import { Args, Command, Options } from "@effect/cli";
+import { Effect, Option } from "effect";
 import sortPackageJson from "sort-package-json";
-import { parse, stringify } from "yaml";
+import { parse } from "yaml";
+import { Biome } from "../../handlers/Biome.js";
 import type { PnpmWorkspaceContent } from "../../handlers/PnpmWorkspace.js";
 import { PnpmWorkspace } from "../../handlers/PnpmWorkspace.js";
 import { Yaml } from "../../handlers/Yaml.js";
 
-/** Default YAML stringify options matching PnpmWorkspace handler. */
-const YAML_STRINGIFY_OPTIONS = {
-	indent: 2,
-	lineWidth: 0,
-	singleQuote: false,
-} as const;
-
 /** Repeated file path arguments. */
 const filesArg = Args.repeated(Args.file({ name: "files", exists: "yes" }));
 
@@ -40,21 +34,37 @@ const packageJsonCommand = Command.make("package-json", { files: filesArg }, ({
 	}),
 );
 
-/** Sort and format pnpm-workspace.yaml. */
-const pnpmWorkspaceCommand = Command.make("pnpm-workspace", {}, () =>
-	Effect.sync(() => {
-		const filepath = "pnpm-workspace.yaml";
+const skipCatalogCheckOption = Options.boolean("skip-catalog-check").pipe(
+	Options.withDescription("Skip cross-checking catalog entries against package.json references"),
+	Options.withDefault(false),
+);
 
-		if (!existsSync(filepath)) {
-			return;
-		}
+/** Sort and format pnpm-workspace.yaml, preserving comments, then cross-check catalogs. */
+const pnpmWorkspaceCommand = Command.make(
+	"pnpm-workspace",
+	{ skipCatalogCheck: skipCatalogCheckOption },
+	({ skipCatalogCheck }) =>
+		Effect.try({
+			try: () => {
+				const filepath = "pnpm-workspace.yaml";
 
-		const content = readFileSync(filepath, "utf-8");
-		const parsed = parse(content) as PnpmWorkspaceContent;
-		const sorted = PnpmWorkspace.sortContent(parsed);
-		const formatted = stringify(sorted, YAML_STRINGIFY_OPTIONS);
-		writeFileSync(filepath, formatted, "utf-8");
-	}),
+				if (!existsSync(filepath)) {
+					return;
+				}
+
+				const content = readFileSync(filepath, "utf-8");
+				const formatted = PnpmWorkspace.formatContent(content);
+				if (formatted !== content) {
+					writeFileSync(filepath, formatted, "utf-8");
+				}
+
+				if (!skipCatalogCheck) {
+					const parsed = (parse(formatted) ?? {}) as PnpmWorkspaceContent;
+					PnpmWorkspace.reportCatalogIssues(PnpmWorkspace.findCatalogIssues(parsed));
+				}
+			},
+			catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+		}),
 );
 
 /** Format YAML files with Prettier. */
@@ -66,7 +76,27 @@ const yamlCommand = Command.make("yaml", { files: filesArg }, ({ files }) =>
 	}),
 );
 
+const configPathOption = Options.text("config-path").pipe(
+	Options.withDescription("Biome config file (defaults to Biome's own discovery)"),
+	Options.optional,
+);
+
+/** Format extensionless Node.js scripts with Biome through stdin. */
+const scriptCommand = Command.make(
+	"script",
+	{ configPath: configPathOption, files: filesArg },
+	({ configPath, files }) =>
+		Effect.try({
+			try: () => {
+				for (const filepath of files) {
+					Biome.formatScript(filepath, Option.getOrUndefined(configPath));
+				}
+			},
+			catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+		}),
+);
+
 /** Parent fmt command with formatting subcommands. */
 export const fmtCommand = Command.make("fmt").pipe(
-	Command.withSubcommands([packageJsonCommand, pnpmWorkspaceCommand, yamlCommand]),
+	Command.withSubcommands([packageJsonCommand, pnpmWorkspaceCommand, scriptCommand, yamlCommand]),
 );
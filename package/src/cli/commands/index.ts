@@ -4,5 +4,12 @@
  * @internal
  */
 export { checkCommand } from "./check.js";
+export { explainCommand } from "./explain.js";
 export { fmtCommand } from "./fmt.js";
 export { initCommand } from "./init.js";
+export { migrateCommand } from "./migrate.js";
+export { printConfigCommand } from "./printConfig.js";
+export { runCommand } from "./run.js";
+export { tsdocCommand } from "./tsdoc.js";
+export { typecheckCommand } from "./typecheck.js";
+export { uninstallCommand } from "./uninstall.js";
@@ -7,19 +7,23 @@ import { dirname } from "node:path";
 import { isDeepStrictEqual } from "node:util";
 import { Command, Options } from "@effect/cli";
 import { FileSystem } from "@effect/platform";
-import type { SectionBlock } from "@savvy-web/silk-effects";
-import { BiomeSchemaSync, ManagedSection, SyncResult } from "@savvy-web/silk-effects";
-import { Effect } from "effect";
-import type { JsoncFormattingOptions } from "jsonc-effect";
+import { BiomeSchemaSync, BiomeSchemaSyncLive, ManagedSection, ManagedSectionLive } from "@savvy-web/silk-effects";
+import { Console, Effect, Layer, Option } from "effect";
 import { applyEdits, modify, parse } from "jsonc-effect";
+import { TypeScript } from "../../handlers/TypeScript.js";
+import type { DryRunChanges } from "../dryRun.js";
+import { dryRunFileSystem, formatDryRunDiffs } from "../dryRun.js";
+import type { HookBackendName } from "../hooks.js";
+import { HOOK_BACKENDS, resolveHookBackend } from "../hooks.js";
 import {
 	DEFAULT_CONFIG_PATH,
-	HUSKY_HOOK_PATH,
+	JSONC_FORMAT,
 	MARKDOWNLINT_CONFIG_PATH,
-	POST_CHECKOUT_HOOK_PATH,
-	POST_MERGE_HOOK_PATH,
-	preCommitBlock,
-	shellScriptsBlock,
+	commitMsgSpec,
+	generateConfigContent,
+	preCommitSpec,
+	prePushSpec,
+	shellScriptsSpec,
 } from "../sections.js";
 import { MARKDOWNLINT_CONFIG, MARKDOWNLINT_SCHEMA, MARKDOWNLINT_TEMPLATE } from "../templates/markdownlint.gen.js";
 
@@ -29,11 +33,11 @@ const CHECK_MARK = "\u2713";
 /** Unicode warning symbol. */
 const WARNING = "\u26A0";
 
-/** Executable file permission mode. */
-const EXECUTABLE_MODE = 0o755;
+/** Unicode bullet symbol. */
+const BULLET = "\u2022";
 
-/** Formatting options for jsonc-effect surgical edits. */
-const JSONC_FORMAT: Partial<JsoncFormattingOptions> = { tabSize: 1, insertSpaces: false };
+/** Valid environment variable names for --ci-env. */
+const ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
 
 /** Available presets. */
 type PresetType = "minimal" | "standard" | "silk";
@@ -58,23 +62,6 @@ function presetIncludesMarkdown(preset: PresetType): boolean {
 	return preset !== "minimal";
 }
 
-/**
- * Generate the lint-staged config file content.
- *
- * @param preset - The preset to use
- * @returns Config file content
- */
-function generateConfigContent(preset: PresetType): string {
-	return `/**
- * lint-staged configuration
- * Generated by savvy-lint init
- */
-import { Preset } from "@savvy-web/lint-staged";
-
-export default Preset.${preset}();
-`;
-}
-
 /**
  * Write or update the markdownlint-cli2 config file.
  *
@@ -188,60 +175,64 @@ const presetOption = Options.choice("preset", ["minimal", "standard", "silk"]).p
 	Options.withDefault("silk" as const),
 );
 
-/**
- * Make a file executable.
- *
- * @param path - File path to make executable
- * @returns Effect that makes the file executable
- */
-function makeExecutable(path: string) {
-	return Effect.tryPromise(() => import("node:fs/promises").then((fs) => fs.chmod(path, EXECUTABLE_MODE)));
-}
+const hooksOption = Options.choice("hooks", ["auto", ...HOOK_BACKENDS]).pipe(
+	Options.withDescription("Hook manager to install through: auto, husky, lefthook, simple-git-hooks, or hooks-path"),
+	Options.withDefault("auto" as HookBackendName | "auto"),
+);
+
+const ciEnvOption = Options.text("ci-env").pipe(
+	Options.withDescription("Additional environment variable that skips the pre-commit hook when set (repeatable)"),
+	Options.repeated,
+);
+
+const commitMsgOption = Options.boolean("commit-msg").pipe(
+	Options.withDescription("Also install a commit-msg hook running commitlint"),
+	Options.withDefault(false),
+);
+
+const prePushOption = Options.boolean("pre-push").pipe(
+	Options.withDescription("Also install a pre-push hook running a full type check"),
+	Options.withDefault(false),
+);
+
+const prePushCommandOption = Options.text("pre-push-command").pipe(
+	Options.withDescription("Command the pre-push hook runs (implies --pre-push, defaults to the full type check)"),
+	Options.optional,
+);
+
+const dryRunOption = Options.boolean("dry-run").pipe(
+	Options.withDescription("Print the changes as unified diffs without writing any files"),
+	Options.withDefault(false),
+);
 
 /**
- * Write a hook file with create/update/force logic.
+ * Run an init effect against a recording FileSystem and print its changes.
  *
- * @param fs - FileSystem service
- * @param section - ManagedSection service
- * @param hookPath - Path to the hook file
- * @param block - The section block to sync
- * @param comment - Header comment for new hook files
- * @param force - Whether to overwrite the entire file
- * @returns Effect that writes the hook
+ * @remarks
+ * The silk-effects services that write files are rebuilt on top of
+ * {@link dryRunFileSystem}, so hook syncs and biome schema updates are
+ * recorded along with the command's own writes. Nothing touches disk.
+ *
+ * @param effect - The init effect to run
+ * @returns Effect that prints one unified diff per changed file
  */
-function writeHook(
-	fs: FileSystem.FileSystem,
-	section: ManagedSection["Type"],
-	hookPath: string,
-	block: SectionBlock,
-	comment: string,
-	force: boolean,
-) {
+function withDryRun<A, E, R>(effect: Effect.Effect<A, E, R>) {
 	return Effect.gen(function* () {
-		const hookExists = yield* fs.exists(hookPath);
-		const header = `#!/usr/bin/env sh\n# ${comment}\n# Custom hooks can go above or below the managed section\n`;
-
-		if (!hookExists || force) {
-			if (!hookExists) {
-				yield* fs.makeDirectory(".husky", { recursive: true });
-			}
-			yield* fs.writeFileString(hookPath, header);
-		}
+		const fs = yield* FileSystem.FileSystem;
+		const changes: DryRunChanges = new Map();
+		const services = Layer.mergeAll(ManagedSectionLive, BiomeSchemaSyncLive).pipe(
+			Layer.provideMerge(dryRunFileSystem(changes)),
+		);
 
-		const result = yield* section.sync(hookPath, block);
-		yield* makeExecutable(hookPath);
+		yield* effect.pipe(Effect.provide(services));
 
-		if (!hookExists) {
-			yield* Effect.log(`${CHECK_MARK} Created ${hookPath}`);
-		} else if (force) {
-			yield* Effect.log(`${CHECK_MARK} Replaced ${hookPath} (--force)`);
-		} else {
-			yield* SyncResult.$match(result, {
-				Created: () => Effect.log(`${CHECK_MARK} Added managed section to ${hookPath}`),
-				Updated: () => Effect.log(`${CHECK_MARK} Updated managed section in ${hookPath}`),
-				Unchanged: () => Effect.log(`${CHECK_MARK} ${hookPath}: up-to-date`),
-			});
+		const diffs = yield* formatDryRunDiffs(fs, changes);
+		for (const diff of diffs) {
+			yield* Console.log(diff);
 		}
+		yield* Effect.log(
+			diffs.length === 0 ? `${CHECK_MARK} Dry run: no changes` : `Dry run: ${diffs.length} file(s) would change`,
+		);
 	});
 }
 
@@ -250,18 +241,37 @@ function writeHook(
  *
  * @remarks
  * Creates the necessary configuration files for lint-staged:
- * - `.husky/pre-commit` hook with managed section
- * - `.husky/post-checkout` and `.husky/post-merge` hooks (when preset includes ShellScripts)
+ * - pre-commit hook running lint-staged, skipped in CI (and the --ci-env
+ *   variables) or with `SAVVY_LINT_SKIP=1`
+ * - post-checkout and post-merge hooks (when preset includes ShellScripts)
+ * - commit-msg hook running commitlint (with --commit-msg)
+ * - pre-push hook running the --pre-push-command pipeline, a full type
+ *   check by default (with --pre-push)
  * - `.markdownlint-cli2.jsonc` config (when preset includes Markdown)
  * - lint-staged config at the specified path
  *
- * The managed section feature allows users to add custom hooks above/below
- * the savvy-lint section without them being overwritten on updates.
+ * Hooks are installed through the hook manager given with --hooks, or the
+ * one detected from the project. Husky and `core.hooksPath` hook scripts get
+ * a managed section, which allows users to add custom hooks above/below it
+ * without them being overwritten on updates.
+ *
+ * With --dry-run, every change is computed and printed as a unified diff
+ * instead of being written.
  */
 export const initCommand = Command.make(
 	"init",
-	{ force: forceOption, config: configOption, preset: presetOption },
-	({ force, config, preset }) =>
+	{
+		force: forceOption,
+		config: configOption,
+		preset: presetOption,
+		hooks: hooksOption,
+		ciEnv: ciEnvOption,
+		commitMsg: commitMsgOption,
+		prePush: prePushOption,
+		prePushCommand: prePushCommandOption,
+		dryRun: dryRunOption,
+	},
+	({ force, config, preset, hooks, ciEnv, commitMsg, prePush, prePushCommand, dryRun }) =>
 		Effect.gen(function* () {
 			const fs = yield* FileSystem.FileSystem;
 			const section = yield* ManagedSection;
@@ -270,39 +280,52 @@ export const initCommand = Command.make(
 				yield* Effect.fail(new Error("Config path must be relative to repository root, not absolute"));
 			}
 
-			yield* Effect.log("Initializing lint-staged configuration...\n");
+			const invalidEnvVar = ciEnv.find((name) => !ENV_VAR_NAME.test(name));
+			if (invalidEnvVar !== undefined) {
+				yield* Effect.fail(new Error(`Invalid environment variable name for --ci-env: ${invalidEnvVar}`));
+			}
 
-			// Write pre-commit hook (always)
-			yield* writeHook(
-				fs,
-				section,
-				HUSKY_HOOK_PATH,
-				preCommitBlock(config),
-				"Pre-commit hook with savvy-lint managed section",
-				force,
+			yield* Effect.log(
+				dryRun
+					? "Initializing lint-staged configuration (dry run, no files are written)...\n"
+					: "Initializing lint-staged configuration...\n",
 			);
 
+			const backend = yield* resolveHookBackend(hooks, fs, section);
+			yield* Effect.log(`Hook manager: ${backend.name}`);
+
+			// Write pre-commit hook (always)
+			yield* Effect.log(`${CHECK_MARK} ${yield* backend.install(preCommitSpec(config, ciEnv), force)}`);
+
 			// Write post-checkout and post-merge hooks (when preset includes ShellScripts)
 			if (presetIncludesShellScripts(preset)) {
-				const shellBlock = shellScriptsBlock();
-
-				yield* writeHook(
-					fs,
-					section,
-					POST_CHECKOUT_HOOK_PATH,
-					shellBlock,
-					"Post-checkout hook with savvy-lint managed section",
-					force,
-				);
-
-				yield* writeHook(
-					fs,
-					section,
-					POST_MERGE_HOOK_PATH,
-					shellBlock,
-					"Post-merge hook with savvy-lint managed section",
-					force,
-				);
+				for (const hook of ["post-checkout", "post-merge"] as const) {
+					yield* Effect.log(`${CHECK_MARK} ${yield* backend.install(shellScriptsSpec(hook), force)}`);
+				}
+			}
+
+			// Write commit-msg hook (opt-in)
+			if (commitMsg) {
+				yield* Effect.log(`${CHECK_MARK} ${yield* backend.install(commitMsgSpec(), force)}`);
+			}
+
+			// Write pre-push hook (opt-in, the full type check unless a command is given)
+			if (prePush || Option.isSome(prePushCommand)) {
+				const command = Option.isSome(prePushCommand)
+					? prePushCommand.value
+					: yield* Effect.try({
+							try: () => TypeScript.getDefaultTypecheckCommand(),
+							catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+						});
+				yield* Effect.log(`${CHECK_MARK} ${yield* backend.install(prePushSpec(command), force)}`);
+			}
+
+			// Make git run the hooks (not in dry runs: it may change the git config)
+			if (!dryRun) {
+				const activation = yield* backend.activate();
+				if (activation !== null) {
+					yield* Effect.log(`${BULLET} ${activation}`);
+				}
 			}
 
 			// Write markdownlint config (when preset includes Markdown)
@@ -329,6 +352,12 @@ export const initCommand = Command.make(
 				yield* Effect.log(`${CHECK_MARK} Created ${config} (preset: ${preset})`);
 			}
 
-			yield* Effect.log("\nDone! Lint-staged is ready to use.");
-		}),
-).pipe(Command.withDescription("Initialize lint-staged configuration and husky hooks"));
+			if (!dryRun) {
+				yield* Effect.log("\nDone! Lint-staged is ready to use.");
+			}
+		}).pipe((effect) => (dryRun ? withDryRun(effect) : effect)),
+).pipe(
+	Command.withDescription(
+		"Initialize lint-staged configuration and git hooks (husky, lefthook, simple-git-hooks or core.hooksPath)",
+	),
+);
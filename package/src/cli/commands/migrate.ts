@@ -0,0 +1,201 @@
+/**
+ * Migrate command - convert a hand-written lint-staged config to handlers.
+ *
+ * @remarks
+ * Reads an existing `.lintstagedrc*` or `lint-staged.config.*` file, maps the
+ * entries it recognizes to built-in handler options with
+ * {@link migrateConfig}, and writes a `createConfig` or `Preset` config.
+ * Unrecognized entries are kept under `custom`.
+ *
+ * @internal
+ */
+import { dirname, relative } from "node:path";
+import { Command, Options } from "@effect/cli";
+import { FileSystem } from "@effect/platform";
+import { Effect, Option } from "effect";
+import { getConfigOptions } from "../../config/createConfig.js";
+import { CONFIG_FILES, loadConfig } from "../../config/loadConfig.js";
+import type { MigrationResult } from "../../config/migrateConfig.js";
+import { migrateConfig } from "../../config/migrateConfig.js";
+import { DEFAULT_CONFIG_PATH } from "../sections.js";
+
+/** Unicode checkmark symbol. */
+const CHECK_MARK = "\u2713";
+
+/** Unicode warning symbol. */
+const WARNING = "\u26A0";
+
+/** Unicode bullet symbol. */
+const BULLET = "\u2022";
+
+/** Object keys that can be written without quotes. */
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** A function source that is already a valid expression. */
+const FUNCTION_EXPRESSION = /^(?:async\s+)?(?:function\b|\(|[\w$]+\s*=>)/;
+
+/** The name of a method shorthand, e.g. `'*.css'(files) {`. */
+const METHOD_NAME = /^(async\s+)?(?:"[^"]*"|'[^']*'|\[[^\]]*\]|[\w$]+)\s*\(/;
+
+/**
+ * Render a config value as TypeScript source.
+ *
+ * @remarks
+ * Functions are copied from their source text; method shorthands are
+ * rewritten as function expressions.
+ *
+ * @param value - Value to render
+ * @param indent - Indentation of the line the value starts on
+ * @returns The source text
+ */
+function toSource(value: unknown, indent: string): string {
+	if (typeof value === "function") {
+		const source = value.toString();
+		return FUNCTION_EXPRESSION.test(source)
+			? source
+			: source.replace(METHOD_NAME, (_, async: string | undefined) => `${async ?? ""}function (`);
+	}
+
+	if (Array.isArray(value)) {
+		if (value.length === 0) return "[]";
+		const items = value.map((item) => `${indent}\t${toSource(item, `${indent}\t`)},`);
+		return `[\n${items.join("\n")}\n${indent}]`;
+	}
+
+	if (typeof value === "object" && value !== null) {
+		const entries = Object.entries(value);
+		if (entries.length === 0) return "{}";
+		const lines = entries.map(
+			([key, item]) =>
+				`${indent}\t${IDENTIFIER.test(key) ? key : JSON.stringify(key)}: ${toSource(item, `${indent}\t`)},`,
+		);
+		return `{\n${lines.join("\n")}\n${indent}}`;
+	}
+
+	return JSON.stringify(value);
+}
+
+/**
+ * Generate the migrated config file content.
+ *
+ * @param result - The migration result
+ * @param source - Path of the original config, for the header comment
+ * @returns Config file content
+ */
+function generateMigratedContent(result: MigrationResult, source: string): string {
+	const factory = result.preset === null ? "createConfig" : "Preset";
+	const call = result.preset === null ? "createConfig" : `Preset.${result.preset}`;
+	const args = Object.keys(result.options).length === 0 ? "" : toSource(result.options, "");
+
+	return `/**
+ * lint-staged configuration
+ * Migrated by savvy-lint migrate from ${source}
+ */
+import { ${factory} } from "@savvy-web/lint-staged";
+
+export default ${call}(${args});
+`;
+}
+
+/**
+ * Find the hand-written lint-staged config in the current directory.
+ *
+ * @param fs - FileSystem service
+ * @returns Effect yielding the first existing config file, or null
+ */
+function findLegacyConfig(fs: FileSystem.FileSystem) {
+	return Effect.gen(function* () {
+		for (const file of CONFIG_FILES) {
+			if (yield* fs.exists(file)) return file;
+		}
+		return null;
+	});
+}
+
+const configOption = Options.file("config").pipe(
+	Options.withAlias("c"),
+	Options.withDescription(
+		"Path to the existing lint-staged config (defaults to .lintstagedrc* or lint-staged.config.*)",
+	),
+	Options.optional,
+);
+
+const outputOption = Options.text("output").pipe(
+	Options.withAlias("o"),
+	Options.withDescription("Relative path for the migrated config file (from repo root)"),
+	Options.withDefault(DEFAULT_CONFIG_PATH),
+);
+
+const forceOption = Options.boolean("force").pipe(
+	Options.withAlias("f"),
+	Options.withDescription("Overwrite the output file if it exists"),
+	Options.withDefault(false),
+);
+
+/**
+ * Migrate command implementation.
+ *
+ * @remarks
+ * The original config is left in place so the result can be reviewed before
+ * it is removed. Function entries are copied by source text, so anything
+ * they import must be imported in the new file as well.
+ */
+export const migrateCommand = Command.make(
+	"migrate",
+	{ config: configOption, output: outputOption, force: forceOption },
+	({ config, output, force }) =>
+		Effect.gen(function* () {
+			const fs = yield* FileSystem.FileSystem;
+
+			if (output.startsWith("/")) {
+				yield* Effect.fail(new Error("Output path must be relative to repository root, not absolute"));
+			}
+
+			const sourcePath = Option.getOrUndefined(config) ?? (yield* findLegacyConfig(fs));
+			if (sourcePath === null) {
+				return yield* Effect.fail(
+					new Error(`No lint-staged config file found to migrate. Searched: ${CONFIG_FILES.join(", ")}`),
+				);
+			}
+
+			const loaded = yield* Effect.tryPromise({
+				try: () => loadConfig(sourcePath),
+				catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+			});
+			const source = relative(process.cwd(), loaded.path);
+
+			if (getConfigOptions(loaded.config) !== undefined) {
+				return yield* Effect.fail(new Error(`${source} already uses createConfig or a Preset`));
+			}
+
+			if ((yield* fs.exists(output)) && !force) {
+				return yield* Effect.fail(new Error(`${output} already exists (use --force to overwrite)`));
+			}
+
+			const result = migrateConfig(loaded.config);
+
+			yield* Effect.log(`Migrating ${source}...\n`);
+			for (const { glob, handler } of result.migrated) {
+				yield* Effect.log(`${CHECK_MARK} ${glob} -> ${handler}`);
+			}
+			for (const glob of result.preserved) {
+				const copied = [loaded.config[glob]].flat().some((entry) => typeof entry === "function")
+					? " (function copied by source, check its imports)"
+					: "";
+				yield* Effect.log(`${BULLET} ${glob} -> custom${copied}`);
+			}
+
+			const configDir = dirname(output);
+			if (configDir && configDir !== ".") {
+				yield* fs.makeDirectory(configDir, { recursive: true });
+			}
+			yield* fs.writeFileString(output, generateMigratedContent(result, source));
+
+			yield* Effect.log(
+				`\n${CHECK_MARK} Created ${output} (${result.preset === null ? "createConfig" : `preset: ${result.preset}`})`,
+			);
+			yield* Effect.log(
+				`${WARNING} Review ${output}, then delete ${source} and run 'savvy-lint init --config ${output}' to update the hooks`,
+			);
+		}),
+).pipe(Command.withDescription("Convert an existing lint-staged config to savvy-lint handlers"));
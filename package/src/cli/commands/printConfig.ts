@@ -0,0 +1,38 @@
+/**
+ * Print-config command - output the resolved lint-staged configuration.
+ *
+ * @remarks
+ * Loads the project's lint-staged config and prints {@link describeConfig}'s
+ * description of it as JSON: glob keys, step order, resolved config files,
+ * detected tools and effective excludes.
+ *
+ * @internal
+ */
+import { Command, Options } from "@effect/cli";
+import { Console, Effect, Option } from "effect";
+import { describeConfig } from "../../config/describeConfig.js";
+import { loadConfig } from "../../config/loadConfig.js";
+
+const configOption = Options.file("config").pipe(
+	Options.withAlias("c"),
+	Options.withDescription("Path to the lint-staged config (defaults to the same search as 'check')"),
+	Options.optional,
+);
+
+/**
+ * Print-config command implementation.
+ *
+ * @remarks
+ * Writes plain JSON to stdout (not through the logger) so the output can be
+ * piped into other tools. The config file path is included as `path`.
+ */
+export const printConfigCommand = Command.make("print-config", { config: configOption }, ({ config }) =>
+	Effect.gen(function* () {
+		const loaded = yield* Effect.tryPromise({
+			try: () => loadConfig(Option.getOrUndefined(config)),
+			catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+		});
+
+		yield* Console.log(JSON.stringify({ path: loaded.path, ...describeConfig(loaded.config) }, null, 2));
+	}),
+);
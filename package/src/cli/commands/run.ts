@@ -0,0 +1,112 @@
+/**
+ * Run command - execute the configured lint-staged tasks outside a commit.
+ *
+ * @remarks
+ * Loads the project's lint-staged config, matches its globs against a file
+ * list and runs the resulting commands, so CI can run exactly the same
+ * pipeline as the pre-commit hook.
+ *
+ * @internal
+ */
+import { execSync, spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { Args, Command, Options } from "@effect/cli";
+import { Effect, Option } from "effect";
+import { loadConfig } from "../../config/loadConfig.js";
+import { resolveTasks } from "../../config/resolveTasks.js";
+import { Filter } from "../../utils/Filter.js";
+
+/** Unicode checkmark symbol. */
+const CHECK_MARK = "\u2713";
+
+/** Unicode cross symbol. */
+const CROSS_MARK = "\u2717";
+
+/** Repeated file path arguments. */
+const filesArg = Args.repeated(Args.file({ name: "files", exists: "yes" }));
+
+const allOption = Options.boolean("all").pipe(
+	Options.withDescription("Run against every file tracked by git"),
+	Options.withDefault(false),
+);
+
+const sinceOption = Options.text("since").pipe(
+	Options.withDescription("Run against files changed between <ref> and HEAD"),
+	Options.optional,
+);
+
+const configOption = Options.file("config").pipe(
+	Options.withAlias("c"),
+	Options.withDescription("Path to the lint-staged config (defaults to the same search as 'check')"),
+	Options.optional,
+);
+
+/**
+ * List git-tracked or changed files, relative to the working directory.
+ *
+ * @param since - Compare against this ref, or list every tracked file when undefined
+ * @returns Paths of files that exist on disk
+ */
+function listGitFiles(since: string | undefined): string[] {
+	const command =
+		since === undefined
+			? "git ls-files"
+			: `git diff --name-only --relative --diff-filter=ACMR ${Filter.shellEscape([`${since}...HEAD`])}`;
+	const output = execSync(command, { encoding: "utf-8" });
+	return output
+		.split("\n")
+		.filter((file) => file.length > 0)
+		.filter((file) => existsSync(file));
+}
+
+/**
+ * Run command implementation.
+ *
+ * @remarks
+ * Exactly one file source is required: explicit files, `--all`, or
+ * `--since <ref>`. Globs run one after another; within a glob, steps run
+ * in order and a failing command skips that glob's remaining steps.
+ */
+export const runCommand = Command.make(
+	"run",
+	{ all: allOption, since: sinceOption, config: configOption, files: filesArg },
+	({ all, since, config, files }) =>
+		Effect.gen(function* () {
+			const sinceRef = Option.getOrUndefined(since);
+			const sources = [files.length > 0, all, sinceRef !== undefined].filter(Boolean).length;
+			if (sources !== 1) {
+				return yield* Effect.fail(new Error("Specify exactly one of: files, --all, or --since <ref>"));
+			}
+
+			const toError = (error: unknown) => (error instanceof Error ? error : new Error(String(error)));
+			const loaded = yield* Effect.tryPromise({ try: () => loadConfig(Option.getOrUndefined(config)), catch: toError });
+			const targets =
+				files.length > 0 ? files : yield* Effect.try({ try: () => listGitFiles(sinceRef), catch: toError });
+
+			yield* Effect.log(`Running ${loaded.path} against ${targets.length} file(s)`);
+
+			const tasks = yield* Effect.tryPromise({ try: () => resolveTasks(loaded.config, targets), catch: toError });
+			let failed = 0;
+
+			for (const task of tasks) {
+				yield* Effect.log(`\n${task.glob} (${task.files.length} file(s))`);
+
+				let ok = true;
+				for (const command of task.steps.flat()) {
+					yield* Effect.log(`  > ${command}`);
+					const result = spawnSync(command, { shell: true, stdio: "inherit" });
+					if (result.status !== 0) {
+						ok = false;
+						break;
+					}
+				}
+
+				if (!ok) failed++;
+				yield* Effect.log(`${ok ? CHECK_MARK : CROSS_MARK} ${task.glob}`);
+			}
+
+			if (failed > 0) {
+				return yield* Effect.fail(new Error(`${failed} of ${tasks.length} task(s) failed`));
+			}
+		}),
+);
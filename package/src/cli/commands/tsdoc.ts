@@ -0,0 +1,39 @@
+/**
+ * Tsdoc command - validate TSDoc comments in staged TypeScript files.
+ *
+ * @remarks
+ * Invoked by the TypeScript handler before type checking. Prints one
+ * `file:line:column` line per problem and exits non-zero when any are found.
+ *
+ * @internal
+ */
+import { Args, Command, Options } from "@effect/cli";
+import { Effect, Option } from "effect";
+import { TypeScript } from "../../handlers/TypeScript.js";
+
+/** Repeated file path arguments. */
+const filesArg = Args.repeated(Args.file({ name: "files", exists: "yes" }));
+
+const configOption = Options.file("config").pipe(
+	Options.withDescription("Path to tsdoc.json (defaults to the nearest one above each file)"),
+	Options.optional,
+);
+
+/** Validate TSDoc comments and report diagnostics. */
+export const tsdocCommand = Command.make("tsdoc", { config: configOption, files: filesArg }, ({ config, files }) =>
+	Effect.gen(function* () {
+		const diagnostics = yield* Effect.tryPromise({
+			try: () => TypeScript.lintTsdoc(files, Option.getOrUndefined(config)),
+			catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+		});
+
+		for (const diagnostic of diagnostics) {
+			yield* Effect.logError(TypeScript.formatTsdocDiagnostic(diagnostic));
+		}
+
+		if (diagnostics.length > 0) {
+			const noun = diagnostics.length === 1 ? "problem" : "problems";
+			return yield* Effect.fail(new Error(`TSDoc validation found ${diagnostics.length} ${noun}`));
+		}
+	}),
+);
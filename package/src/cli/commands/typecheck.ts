@@ -0,0 +1,59 @@
+/**
+ * Typecheck command - run the compiler and fail only on errors in staged files.
+ *
+ * @remarks
+ * Invoked by the TypeScript handler when `stagedDiagnosticsOnly` is set.
+ * Errors in files that are not staged are summarized as a warning count.
+ *
+ * @internal
+ */
+import { spawnSync } from "node:child_process";
+import { Args, Command, Options } from "@effect/cli";
+import { Effect } from "effect";
+import { TypeScript } from "../../handlers/TypeScript.js";
+
+/** Repeated file path arguments. */
+const filesArg = Args.repeated(Args.file({ name: "files", exists: "yes" }));
+
+const commandOption = Options.text("command").pipe(Options.withDescription("Type checking command to run"));
+
+/** Run a type checking command and report errors in the given files. */
+export const typecheckCommand = Command.make(
+	"typecheck",
+	{ command: commandOption, files: filesArg },
+	({ command, files }) =>
+		Effect.gen(function* () {
+			const result = spawnSync(command, { shell: true, encoding: "utf-8" });
+			if (result.error) {
+				return yield* Effect.fail(result.error);
+			}
+			if (result.status === 0) {
+				return;
+			}
+
+			const output = `${result.stdout ?? ""}${result.stderr ?? ""}`;
+			const diagnostics = TypeScript.parseTypecheckOutput(output);
+
+			// Nothing we can attribute to a file: surface the raw output
+			if (diagnostics.length === 0) {
+				yield* Effect.logError(output.trim());
+				return yield* Effect.fail(new Error(`Type checking failed: ${command}`));
+			}
+
+			const { blocking, ignored } = TypeScript.partitionDiagnostics(diagnostics, files);
+
+			for (const diagnostic of blocking) {
+				yield* Effect.logError(TypeScript.formatTypecheckDiagnostic(diagnostic));
+			}
+
+			if (ignored.length > 0) {
+				const noun = ignored.length === 1 ? "error" : "errors";
+				yield* Effect.logWarning(`Ignored ${ignored.length} type ${noun} in files that are not staged`);
+			}
+
+			if (blocking.length > 0) {
+				const noun = blocking.length === 1 ? "error" : "errors";
+				return yield* Effect.fail(new Error(`Type checking found ${blocking.length} ${noun} in staged files`));
+			}
+		}),
+);
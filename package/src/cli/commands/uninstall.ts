@@ -0,0 +1,131 @@
+/**
+ * Uninstall command - remove savvy-lint managed hooks and generated configs.
+ *
+ * @internal
+ */
+import { isDeepStrictEqual } from "node:util";
+import { Command, Options } from "@effect/cli";
+import { FileSystem } from "@effect/platform";
+import { ManagedSection } from "@savvy-web/silk-effects";
+import { Effect, Option } from "effect";
+import { parse } from "jsonc-effect";
+import type { PresetType } from "../../types.js";
+import { resolveHookBackend } from "../hooks.js";
+import {
+	DEFAULT_CONFIG_PATH,
+	MARKDOWNLINT_CONFIG_PATH,
+	extractConfigPath,
+	generateConfigContent,
+	preCommitSpec,
+} from "../sections.js";
+import { MARKDOWNLINT_TEMPLATE } from "../templates/markdownlint.gen.js";
+
+/** Unicode checkmark symbol. */
+const CHECK_MARK = "\u2713";
+
+/** Unicode warning symbol. */
+const WARNING = "\u26A0";
+
+/** Presets whose generated config file can be recognized. */
+const PRESETS: readonly PresetType[] = ["minimal", "standard", "silk"];
+
+/**
+ * Remove a generated config file if it still matches what `init` wrote.
+ *
+ * @param fs - FileSystem service
+ * @param path - Path to the config file
+ * @param isGenerated - Whether the file content is unmodified generated output
+ * @returns Effect that removes the file or reports why it was kept
+ */
+function removeGeneratedConfig(
+	fs: FileSystem.FileSystem,
+	path: string,
+	isGenerated: (content: string) => Effect.Effect<boolean>,
+) {
+	return Effect.gen(function* () {
+		if (!(yield* fs.exists(path))) {
+			return;
+		}
+
+		const content = yield* fs.readFileString(path);
+		if (yield* isGenerated(content)) {
+			yield* fs.remove(path);
+			yield* Effect.log(`${CHECK_MARK} Removed ${path}`);
+		} else {
+			yield* Effect.log(`${WARNING} ${path}: modified since it was generated, left in place`);
+		}
+	});
+}
+
+const configOption = Options.text("config").pipe(
+	Options.withAlias("c"),
+	Options.withDescription("Relative path of the lint-staged config file (defaults to the path in the pre-commit hook)"),
+	Options.optional,
+);
+
+const removeConfigsOption = Options.boolean("remove-configs").pipe(
+	Options.withDescription("Also remove the lint-staged and markdownlint configs if they are unmodified"),
+	Options.withDefault(false),
+);
+
+/**
+ * Uninstall command implementation.
+ *
+ * @remarks
+ * Reverses `savvy-lint init` through the detected hook manager:
+ * - Strips the savvy-lint managed section from the pre-commit,
+ *   post-checkout, post-merge, commit-msg and pre-push hook scripts, deleting hook files left
+ *   with only the header `init` generated
+ * - Removes the savvy-lint command from lefthook or simple-git-hooks configs
+ * - With --remove-configs, deletes the lint-staged config and
+ *   `.markdownlint-cli2.jsonc` when they still match the templates
+ *
+ * Anything left behind because of user edits is reported.
+ */
+export const uninstallCommand = Command.make(
+	"uninstall",
+	{ config: configOption, removeConfigs: removeConfigsOption },
+	({ config, removeConfigs }) =>
+		Effect.gen(function* () {
+			const fs = yield* FileSystem.FileSystem;
+			const section = yield* ManagedSection;
+
+			yield* Effect.log("Removing savvy-lint hooks...\n");
+
+			const backend = yield* resolveHookBackend("auto", fs, section);
+			const { installed } = yield* backend.status(preCommitSpec(DEFAULT_CONFIG_PATH));
+			const configPath =
+				Option.getOrUndefined(config) ??
+				(installed === null ? null : extractConfigPath(installed)) ??
+				DEFAULT_CONFIG_PATH;
+
+			for (const hook of ["pre-commit", "post-checkout", "post-merge", "commit-msg", "pre-push"] as const) {
+				const removal = yield* backend.remove(hook);
+				if (removal === null) {
+					yield* Effect.log(`${CHECK_MARK} ${backend.location(hook)}: nothing to remove`);
+				} else {
+					yield* Effect.log(`${removal.removed ? CHECK_MARK : WARNING} ${removal.message}`);
+				}
+			}
+
+			if (removeConfigs) {
+				yield* removeGeneratedConfig(fs, configPath, (content) =>
+					Effect.succeed(PRESETS.some((preset) => content === generateConfigContent(preset))),
+				);
+				yield* removeGeneratedConfig(fs, MARKDOWNLINT_CONFIG_PATH, (content) =>
+					parse(content).pipe(
+						Effect.map((parsed) => isDeepStrictEqual(parsed, MARKDOWNLINT_TEMPLATE)),
+						Effect.orElseSucceed(() => false),
+					),
+				);
+			} else {
+				for (const path of [configPath, MARKDOWNLINT_CONFIG_PATH]) {
+					if (yield* fs.exists(path)) {
+						yield* Effect.log(`${WARNING} ${path}: left in place (use --remove-configs to remove)`);
+					}
+				}
+			}
+
+			yield* Effect.log("\nDone! Remove @savvy-web/lint-staged from your devDependencies to finish.");
+		}),
+).pipe(Command.withDescription("Remove savvy-lint managed hooks and, optionally, generated configs"));
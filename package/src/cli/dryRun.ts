@@ -0,0 +1,98 @@
+/**
+ * Dry-run support for CLI commands that write files.
+ *
+ * @remarks
+ * Commands run unchanged against an in-memory overlay of the real
+ * FileSystem: reads see pending changes, writes and removals are recorded
+ * instead of touching disk. The recorded changes are then printed as
+ * unified diffs.
+ *
+ * @internal
+ */
+import { relative, resolve } from "node:path";
+import { FileSystem } from "@effect/platform";
+import { SystemError } from "@effect/platform/Error";
+import { FILE_HEADERS_ONLY, createTwoFilesPatch } from "diff";
+import { Effect, Layer } from "effect";
+
+/** Pending file contents keyed by absolute path; `null` marks a removed file. */
+export type DryRunChanges = Map<string, string | null>;
+
+/**
+ * Create a FileSystem layer that records writes instead of performing them.
+ *
+ * @remarks
+ * Overrides the operations used by the CLI commands and the silk-effects
+ * services (`exists`, `readFileString`, `writeFileString`, `makeDirectory`,
+ * `chmod` and `remove`); every other operation reads through to the real
+ * FileSystem. Mode changes are not recorded.
+ *
+ * @param changes - Map that receives the recorded changes
+ * @returns A layer replacing FileSystem, built on top of the real one
+ */
+export function dryRunFileSystem(changes: DryRunChanges) {
+	return Layer.effect(
+		FileSystem.FileSystem,
+		Effect.map(FileSystem.FileSystem, (fs) => {
+			const notFound = (method: string, path: string) =>
+				Effect.fail(new SystemError({ reason: "NotFound", module: "FileSystem", method, pathOrDescriptor: path }));
+
+			return FileSystem.FileSystem.of({
+				...fs,
+				exists: (path) => {
+					const pending = changes.get(resolve(path));
+					return pending === undefined ? fs.exists(path) : Effect.succeed(pending !== null);
+				},
+				readFileString: (path, encoding) => {
+					const pending = changes.get(resolve(path));
+					if (pending === undefined) return fs.readFileString(path, encoding);
+					return pending === null ? notFound("readFileString", path) : Effect.succeed(pending);
+				},
+				writeFileString: (path, data) =>
+					Effect.sync(() => {
+						changes.set(resolve(path), data);
+					}),
+				remove: (path) =>
+					Effect.sync(() => {
+						changes.set(resolve(path), null);
+					}),
+				makeDirectory: () => Effect.void,
+				chmod: () => Effect.void,
+			});
+		}),
+	);
+}
+
+/**
+ * Render recorded changes as unified diffs against the files on disk.
+ *
+ * @param fs - The real FileSystem, used to read the original contents
+ * @param changes - Changes recorded by {@link dryRunFileSystem}
+ * @returns Effect yielding one diff per changed file, sorted by path
+ */
+export function formatDryRunDiffs(fs: FileSystem.FileSystem, changes: DryRunChanges) {
+	return Effect.gen(function* () {
+		const diffs: string[] = [];
+
+		for (const [path, after] of [...changes].sort(([a], [b]) => a.localeCompare(b))) {
+			const exists = yield* fs.exists(path);
+			const before = exists ? yield* fs.readFileString(path) : null;
+			if (before === after) continue;
+
+			const name = relative(process.cwd(), path);
+			diffs.push(
+				createTwoFilesPatch(
+					before === null ? "/dev/null" : `a/${name}`,
+					after === null ? "/dev/null" : `b/${name}`,
+					before ?? "",
+					after ?? "",
+					undefined,
+					undefined,
+					{ headerOptions: FILE_HEADERS_ONLY },
+				),
+			);
+		}
+
+		return diffs;
+	});
+}
@@ -0,0 +1,545 @@
+/**
+ * Hook backends - install and check savvy-lint's git hooks through the
+ * project's hook manager.
+ *
+ * @remarks
+ * Script-based backends (husky, a plain `core.hooksPath` directory) keep a
+ * managed section in each hook script. Config-based backends (lefthook,
+ * simple-git-hooks) add a one-line command to the manager's config file.
+ * Every backend is driven by the same {@link HookSpec}.
+ *
+ * @internal
+ */
+import type { FileSystem } from "@effect/platform";
+import type { ManagedSection } from "@savvy-web/silk-effects";
+import { CheckResult, SyncResult } from "@savvy-web/silk-effects";
+import { Effect } from "effect";
+import { applyEdits, modify, parse } from "jsonc-effect";
+import { parseDocument } from "yaml";
+import { Command } from "../utils/Command.js";
+import { Filter } from "../utils/Filter.js";
+import type { GitHook, HookSpec } from "./sections.js";
+import {
+	HOOK_COMMENTS,
+	HUSKY_HOOKS_DIR,
+	JSONC_FORMAT,
+	MANAGED_SECTION_BEGIN,
+	MANAGED_SECTION_END,
+	SavvyLintSectionDef,
+	hookHeader,
+} from "./sections.js";
+
+/** Supported hook backends. */
+export const HOOK_BACKENDS = ["husky", "lefthook", "simple-git-hooks", "hooks-path"] as const;
+
+/** Name of a supported hook backend. */
+export type HookBackendName = (typeof HOOK_BACKENDS)[number];
+
+/** Executable file permission mode. */
+const EXECUTABLE_MODE = 0o755;
+
+/** Hook directory used by the hooks-path backend when `core.hooksPath` is not set. */
+const DEFAULT_HOOKS_PATH = ".githooks";
+
+/** lefthook config file names, in priority order. */
+const LEFTHOOK_CONFIGS = ["lefthook.yml", "lefthook.yaml", ".lefthook.yml", ".lefthook.yaml"] as const;
+
+/** Standalone simple-git-hooks config file. */
+const SIMPLE_GIT_HOOKS_CONFIG = ".simple-git-hooks.json";
+
+/** Name of the lefthook command savvy-lint adds to each hook. */
+const LEFTHOOK_COMMAND = "savvy-lint";
+
+/**
+ * State of one hook as installed by a backend.
+ */
+export interface HookStatus {
+	/** Whether the hook exists (script file or config entry) */
+	exists: boolean;
+	/** The installed savvy-lint invocation (managed section or command), or null if not found */
+	installed: string | null;
+	/** Whether the installed invocation matches the spec */
+	isUpToDate: boolean;
+}
+
+/**
+ * Outcome of removing savvy-lint from one hook.
+ */
+export interface HookRemoval {
+	/** Whether savvy-lint was removed; false if it was left in place */
+	removed: boolean;
+	/** What was done, for the log */
+	message: string;
+}
+
+/**
+ * A hook manager savvy-lint can install its hooks through.
+ */
+export interface HookBackend {
+	/** The backend name */
+	readonly name: HookBackendName;
+	/** What savvy-lint owns in each hook, for messages */
+	readonly entry: "managed section" | "savvy-lint command";
+	/**
+	 * Where a hook is installed, for messages.
+	 *
+	 * @param hook - The git hook
+	 * @returns The hook script path, or the config file and hook name
+	 */
+	location(hook: GitHook): string;
+	/**
+	 * Read the state of a hook.
+	 *
+	 * @param spec - What savvy-lint expects the hook to contain
+	 */
+	status(spec: HookSpec): Effect.Effect<HookStatus, Error>;
+	/**
+	 * Install or update a hook, preserving anything that isn't savvy-lint's.
+	 *
+	 * @param spec - What to install
+	 * @param force - Replace the whole hook instead of only savvy-lint's part
+	 * @returns A message describing the change
+	 */
+	install(spec: HookSpec, force: boolean): Effect.Effect<string, Error>;
+	/**
+	 * Remove savvy-lint from a hook.
+	 *
+	 * @param hook - The git hook
+	 * @returns What was done, or null if the hook had nothing of savvy-lint's
+	 */
+	remove(hook: GitHook): Effect.Effect<HookRemoval | null, Error>;
+	/**
+	 * Make git run the installed hooks.
+	 *
+	 * @returns A message to show (an action taken or a step left to the user), or null
+	 */
+	activate(): Effect.Effect<string | null, Error>;
+}
+
+/**
+ * Read `core.hooksPath` from the git config.
+ *
+ * @returns Effect yielding the configured hooks directory, or null if unset
+ */
+function readHooksPath() {
+	return Effect.sync(() => {
+		try {
+			return Command.exec("git config --get core.hooksPath") || null;
+		} catch {
+			// Exits non-zero when unset
+			return null;
+		}
+	});
+}
+
+/**
+ * Remove the savvy-lint managed section (markers included) from hook content.
+ *
+ * @remarks
+ * Blank lines left around the removed section are collapsed to one.
+ *
+ * @param content - The hook file content
+ * @returns The content without the managed section, or null if no complete section was found
+ */
+function stripManagedSection(content: string): string | null {
+	const lines = content.split("\n");
+	const begin = lines.findIndex((line) => line.trim() === MANAGED_SECTION_BEGIN);
+	const end = lines.findIndex((line, index) => index > begin && line.trim() === MANAGED_SECTION_END);
+
+	if (begin === -1 || end === -1) {
+		return null;
+	}
+
+	const before = lines.slice(0, begin);
+	const after = lines.slice(end + 1);
+	while (before.length > 0 && before[before.length - 1].trim() === "") before.pop();
+	while (after.length > 0 && after[0].trim() === "") after.shift();
+
+	const remaining = before.length > 0 && after.length > 0 ? [...before, "", ...after] : [...before, ...after];
+	return remaining.length === 0 ? "" : `${remaining.join("\n").trimEnd()}\n`;
+}
+
+/**
+ * Create a backend that keeps a managed section in hook scripts.
+ *
+ * @param name - The backend name
+ * @param dir - Directory holding the hook scripts
+ * @param fs - FileSystem service
+ * @param section - ManagedSection service
+ * @returns The hook backend
+ */
+function scriptBackend(
+	name: "husky" | "hooks-path",
+	dir: string,
+	fs: FileSystem.FileSystem,
+	section: ManagedSection["Type"],
+): HookBackend {
+	const hookPath = (hook: GitHook) => `${dir}/${hook}`;
+
+	return {
+		name,
+		entry: "managed section",
+		location: hookPath,
+
+		status: (spec) =>
+			Effect.gen(function* () {
+				const path = hookPath(spec.hook);
+				if (!(yield* fs.exists(path))) {
+					return { exists: false, installed: null, isUpToDate: false };
+				}
+
+				const existing = yield* section.read(path, SavvyLintSectionDef);
+				if (existing === null) {
+					return { exists: true, installed: null, isUpToDate: false };
+				}
+
+				const result = yield* section.check(path, spec.block);
+				const isUpToDate = CheckResult.$match(result, {
+					Found: ({ isUpToDate }) => isUpToDate,
+					NotFound: () => false,
+				});
+				return { exists: true, installed: existing.text as string, isUpToDate };
+			}),
+
+		install: (spec, force) =>
+			Effect.gen(function* () {
+				const path = hookPath(spec.hook);
+				const hookExists = yield* fs.exists(path);
+
+				if (!hookExists || force) {
+					if (!hookExists) {
+						yield* fs.makeDirectory(dir, { recursive: true });
+					}
+					yield* fs.writeFileString(path, hookHeader(HOOK_COMMENTS[spec.hook]));
+				}
+
+				const result = yield* section.sync(path, spec.block);
+				yield* fs.chmod(path, EXECUTABLE_MODE);
+
+				if (!hookExists) return `Created ${path}`;
+				if (force) return `Replaced ${path} (--force)`;
+				return SyncResult.$match(result, {
+					Created: () => `Added managed section to ${path}`,
+					Updated: () => `Updated managed section in ${path}`,
+					Unchanged: () => `${path}: up-to-date`,
+				}) as string;
+			}),
+
+		remove: (hook) =>
+			Effect.gen(function* () {
+				const path = hookPath(hook);
+				if (!(yield* fs.exists(path))) return null;
+				if ((yield* section.read(path, SavvyLintSectionDef)) === null) return null;
+
+				const stripped = stripManagedSection(yield* fs.readFileString(path));
+				if (stripped === null) {
+					return { removed: false, message: `${path}: managed section markers were edited, left in place` };
+				}
+
+				const remaining = stripped.trim();
+				if (remaining === "" || remaining === hookHeader(HOOK_COMMENTS[hook]).trim()) {
+					yield* fs.remove(path);
+					return { removed: true, message: `Removed ${path}` };
+				}
+
+				yield* fs.writeFileString(path, stripped);
+				return { removed: true, message: `Removed managed section from ${path} (kept custom hook content)` };
+			}),
+
+		activate: () =>
+			Effect.gen(function* () {
+				if (name === "husky" || (yield* readHooksPath()) === dir) return null;
+
+				yield* Effect.try({
+					try: () => Command.exec(`git config core.hooksPath ${Filter.shellEscape([dir])}`),
+					catch: (error) => (error instanceof Error ? error : new Error(String(error))),
+				});
+				return `Set core.hooksPath to ${dir}`;
+			}),
+	};
+}
+
+/**
+ * Parse a YAML config file, failing on syntax errors.
+ *
+ * @param text - The file content
+ * @param file - The file path, for the error message
+ * @returns Effect yielding the parsed document
+ */
+function parseYamlDocument(text: string, file: string) {
+	const doc = parseDocument(text);
+	const [error] = doc.errors;
+	return error ? Effect.fail(new Error(`Could not parse ${file}: ${error.message}`)) : Effect.succeed(doc);
+}
+
+/**
+ * Create a backend that adds a `savvy-lint` command to each hook in the lefthook config.
+ *
+ * @param file - The lefthook config file
+ * @param fs - FileSystem service
+ * @returns The hook backend
+ */
+function lefthookBackend(file: string, fs: FileSystem.FileSystem): HookBackend {
+	const commandPath = (hook: GitHook) => [hook, "commands", LEFTHOOK_COMMAND, "run"];
+
+	const readDocument = Effect.gen(function* () {
+		const text = (yield* fs.exists(file)) ? yield* fs.readFileString(file) : "";
+		return yield* parseYamlDocument(text, file);
+	});
+
+	return {
+		name: "lefthook",
+		entry: "savvy-lint command",
+		location: (hook) => `${file} (${hook})`,
+
+		status: (spec) =>
+			Effect.gen(function* () {
+				const doc = yield* readDocument;
+				const run = doc.getIn(commandPath(spec.hook));
+				const installed = typeof run === "string" ? run : null;
+				return { exists: doc.has(spec.hook), installed, isUpToDate: installed === spec.command };
+			}),
+
+		install: (spec, force) =>
+			Effect.gen(function* () {
+				const fileExists = yield* fs.exists(file);
+				const doc = yield* readDocument;
+				const location = `${file} (${spec.hook})`;
+
+				if (!force && doc.getIn(commandPath(spec.hook)) === spec.command) {
+					return `${location}: up-to-date`;
+				}
+
+				const existed = doc.getIn(commandPath(spec.hook)) !== undefined;
+				if (force) {
+					doc.set(spec.hook, doc.createNode({ commands: { [LEFTHOOK_COMMAND]: { run: spec.command } } }));
+				} else {
+					doc.setIn(commandPath(spec.hook), spec.command);
+				}
+				yield* fs.writeFileString(file, doc.toString({ lineWidth: 0 }));
+
+				if (!fileExists) return `Created ${location}`;
+				if (force) return `Replaced ${location} (--force)`;
+				return existed ? `Updated savvy-lint command in ${location}` : `Added savvy-lint command to ${location}`;
+			}),
+
+		remove: (hook) =>
+			Effect.gen(function* () {
+				if (!(yield* fs.exists(file))) return null;
+				const doc = yield* readDocument;
+				if (doc.getIn([hook, "commands", LEFTHOOK_COMMAND]) === undefined) return null;
+
+				doc.deleteIn([hook, "commands", LEFTHOOK_COMMAND]);
+				// Drop containers left empty, so lefthook doesn't install an empty hook
+				for (const path of [[hook, "commands"], [hook]]) {
+					const node = doc.getIn(path) as { items?: unknown[] } | undefined;
+					if (node?.items?.length === 0) doc.deleteIn(path);
+				}
+				yield* fs.writeFileString(file, doc.toString({ lineWidth: 0 }));
+				return { removed: true, message: `Removed savvy-lint command from ${file} (${hook})` };
+			}),
+
+		activate: () => Effect.succeed("Run 'lefthook install' to apply the hooks"),
+	};
+}
+
+/**
+ * Split a simple-git-hooks command into its `&&`-separated parts.
+ *
+ * @param command - The hook command
+ * @returns The trimmed parts
+ */
+function commandParts(command: string): string[] {
+	return command.split("&&").map((part) => part.trim());
+}
+
+/**
+ * Create a backend that adds savvy-lint's command to each hook in the simple-git-hooks config.
+ *
+ * @remarks
+ * The command is chained with `&&` after any existing command for the hook.
+ * Specs without a pattern (pre-push) own the hook's whole command, so an
+ * existing command for the hook is only replaced with `force`.
+ *
+ * @param file - `package.json` (the `simple-git-hooks` field) or the standalone config file
+ * @param fs - FileSystem service
+ * @returns The hook backend
+ */
+function simpleGitHooksBackend(file: string, fs: FileSystem.FileSystem): HookBackend {
+	const keyPath = (hook: GitHook) => (file === "package.json" ? ["simple-git-hooks", hook] : [hook]);
+	const location = (hook: GitHook) => `${file} (${hook})`;
+
+	const readConfig = Effect.gen(function* () {
+		const text = (yield* fs.exists(file)) ? yield* fs.readFileString(file) : "{}\n";
+		const parsed = (yield* parse(text)) as Record<string, unknown>;
+		const hooks = (file === "package.json" ? parsed["simple-git-hooks"] : parsed) as
+			| Record<string, unknown>
+			| undefined;
+		return { text, hooks: hooks ?? {} };
+	});
+
+	const write = (text: string, hook: GitHook, value: string | undefined) =>
+		Effect.gen(function* () {
+			const edits = yield* modify(text, keyPath(hook), value, { formattingOptions: JSONC_FORMAT });
+			yield* fs.writeFileString(file, yield* applyEdits(text, edits));
+		});
+
+	return {
+		name: "simple-git-hooks",
+		entry: "savvy-lint command",
+		location,
+
+		status: (spec) =>
+			Effect.gen(function* () {
+				const { hooks } = yield* readConfig;
+				const command = hooks[spec.hook];
+				if (typeof command !== "string") {
+					return { exists: false, installed: null, isUpToDate: false };
+				}
+
+				const { pattern } = spec;
+				const installed =
+					pattern === null ? command : (commandParts(command).find((part) => pattern.test(part)) ?? null);
+				return { exists: true, installed, isUpToDate: installed === spec.command };
+			}),
+
+		install: (spec, force) =>
+			Effect.gen(function* () {
+				const fileExists = yield* fs.exists(file);
+				const { text, hooks } = yield* readConfig;
+				const command = hooks[spec.hook];
+
+				const { pattern } = spec;
+				// A command without a pattern (the pre-push pipeline) can't be told apart from the user's
+				if (typeof command === "string" && command !== spec.command && !force && pattern === null) {
+					return `${location(spec.hook)}: has its own command, left in place (use --force to replace)`;
+				}
+
+				let updated = spec.command;
+				if (typeof command === "string" && !force && pattern !== null) {
+					const parts = commandParts(command);
+					const index = parts.findIndex((part) => pattern.test(part));
+					if (index === -1) {
+						parts.push(spec.command);
+					} else {
+						parts[index] = spec.command;
+					}
+					updated = parts.join(" && ");
+				}
+
+				if (updated === command) {
+					return `${location(spec.hook)}: up-to-date`;
+				}
+				yield* write(text, spec.hook, updated);
+
+				if (!fileExists) return `Created ${location(spec.hook)}`;
+				if (force && typeof command === "string") return `Replaced ${location(spec.hook)} (--force)`;
+				return typeof command === "string"
+					? `Updated savvy-lint command in ${location(spec.hook)}`
+					: `Added savvy-lint command to ${location(spec.hook)}`;
+			}),
+
+		remove: (hook) =>
+			Effect.gen(function* () {
+				if (!(yield* fs.exists(file))) return null;
+				const { text, hooks } = yield* readConfig;
+				const command = hooks[hook];
+				if (typeof command !== "string") return null;
+
+				// The pre-push pipeline is user-configured, so it can't be told apart from other commands
+				if (hook === "pre-push") {
+					return { removed: false, message: `${location(hook)}: not recognizable as savvy-lint's, left in place` };
+				}
+
+				// Only the parts savvy-lint adds: the lint-staged, commitlint and shell scripts commands
+				const parts = commandParts(command);
+				const kept = parts.filter(
+					(part) => !/lint-staged --config |commitlint --edit|git config core\.fileMode false/.test(part),
+				);
+				if (kept.length === parts.length) return null;
+
+				yield* write(text, hook, kept.length === 0 ? undefined : kept.join(" && "));
+				return { removed: true, message: `Removed savvy-lint command from ${location(hook)}` };
+			}),
+
+		activate: () =>
+			Effect.sync(() => {
+				const exec = Command.getExecPrefix(Command.detectPackageManager()).join(" ");
+				return `Run '${exec} simple-git-hooks' to apply the hooks`;
+			}),
+	};
+}
+
+/**
+ * Detect which hook backend the project uses.
+ *
+ * @remarks
+ * Checked in order: a lefthook config file, a simple-git-hooks config
+ * (standalone file or `package.json` field), a `.husky` directory, and a
+ * `core.hooksPath` outside `.husky`. Defaults to husky.
+ *
+ * @param fs - FileSystem service
+ * @returns Effect yielding the detected backend name
+ */
+export function detectHookBackend(fs: FileSystem.FileSystem) {
+	return Effect.gen(function* () {
+		for (const file of LEFTHOOK_CONFIGS) {
+			if (yield* fs.exists(file)) return "lefthook" as const;
+		}
+
+		if (yield* fs.exists(SIMPLE_GIT_HOOKS_CONFIG)) return "simple-git-hooks" as const;
+		if (yield* fs.exists("package.json")) {
+			const pkg = (yield* parse(yield* fs.readFileString("package.json"))) as Record<string, unknown>;
+			if (pkg["simple-git-hooks"] !== undefined) return "simple-git-hooks" as const;
+		}
+
+		if (yield* fs.exists(HUSKY_HOOKS_DIR)) return "husky" as const;
+
+		const hooksPath = yield* readHooksPath();
+		if (hooksPath !== null && !hooksPath.startsWith(HUSKY_HOOKS_DIR)) return "hooks-path" as const;
+
+		return "husky" as const;
+	});
+}
+
+/**
+ * Resolve a hook backend by name, detecting it when `auto`.
+ *
+ * @param name - The backend name, or `auto` to detect it
+ * @param fs - FileSystem service
+ * @param section - ManagedSection service
+ * @returns Effect yielding the hook backend
+ */
+export function resolveHookBackend(
+	name: HookBackendName | "auto",
+	fs: FileSystem.FileSystem,
+	section: ManagedSection["Type"],
+) {
+	return Effect.gen(function* () {
+		const backend = name === "auto" ? yield* detectHookBackend(fs) : name;
+
+		switch (backend) {
+			case "husky":
+				return scriptBackend("husky", HUSKY_HOOKS_DIR, fs, section);
+			case "hooks-path":
+				return scriptBackend("hooks-path", (yield* readHooksPath()) ?? DEFAULT_HOOKS_PATH, fs, section);
+			case "lefthook": {
+				let file: string = LEFTHOOK_CONFIGS[0];
+				for (const candidate of LEFTHOOK_CONFIGS) {
+					if (yield* fs.exists(candidate)) {
+						file = candidate;
+						break;
+					}
+				}
+				return lefthookBackend(file, fs);
+			}
+			case "simple-git-hooks":
+				return simpleGitHooksBackend(
+					(yield* fs.exists("package.json")) && !(yield* fs.exists(SIMPLE_GIT_HOOKS_CONFIG))
+						? "package.json"
+						: SIMPLE_GIT_HOOKS_CONFIG,
+					fs,
+				);
+		}
+	});
+}
@@ -18,7 +18,18 @@ import {
 } from "@savvy-web/silk-effects";
 import { Effect, Layer } from "effect";
 import { WorkspacesLive } from "workspaces-effect";
-import { checkCommand, fmtCommand, initCommand } from "./commands/index.js";
+import {
+	checkCommand,
+	explainCommand,
+	fmtCommand,
+	initCommand,
+	migrateCommand,
+	printConfigCommand,
+	runCommand,
+	tsdocCommand,
+	typecheckCommand,
+	uninstallCommand,
+} from "./commands/index.js";
 
 /** Silk-effects service layers (all require FileSystem from NodeContext). */
 const SilkLive = Layer.mergeAll(ManagedSectionLive, BiomeSchemaSyncLive, ConfigDiscoveryLive, ToolDiscoveryLive);
@@ -27,7 +38,20 @@ const SilkLive = Layer.mergeAll(ManagedSectionLive, BiomeSchemaSyncLive, ConfigD
 const AppLayer = SilkLive.pipe(Layer.provideMerge(WorkspacesLive), Layer.provideMerge(NodeContext.layer));
 
 /** Root command for the CLI with all subcommands. */
-const rootCommand = Command.make("savvy-lint").pipe(Command.withSubcommands([initCommand, checkCommand, fmtCommand]));
+const rootCommand = Command.make("savvy-lint").pipe(
+	Command.withSubcommands([
+		initCommand,
+		checkCommand,
+		explainCommand,
+		fmtCommand,
+		migrateCommand,
+		printConfigCommand,
+		runCommand,
+		tsdocCommand,
+		typecheckCommand,
+		uninstallCommand,
+	]),
+);
 
 /** CLI application runner. */
 const cli = Command.run(rootCommand, {
@@ -49,4 +73,16 @@ export function runCli(): void {
 	NodeRuntime.runMain(main);
 }
 
-export { checkCommand, fmtCommand, initCommand, rootCommand };
+export {
+	checkCommand,
+	explainCommand,
+	fmtCommand,
+	initCommand,
+	migrateCommand,
+	printConfigCommand,
+	rootCommand,
+	runCommand,
+	tsdocCommand,
+	typecheckCommand,
+	uninstallCommand,
+};
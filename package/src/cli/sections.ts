@@ -3,16 +3,15 @@
  *
  * @internal
  */
+import type { SectionBlock } from "@savvy-web/silk-effects";
 import { SectionDefinition, ShellSectionDefinition } from "@savvy-web/silk-effects";
+import type { JsoncFormattingOptions } from "jsonc-effect";
+import { Handler } from "../Handler.js";
+import type { PresetType } from "../types.js";
+import { Command } from "../utils/Command.js";
 
-/** Path for the husky pre-commit hook. */
-export const HUSKY_HOOK_PATH = ".husky/pre-commit";
-
-/** Path for the husky post-checkout hook. */
-export const POST_CHECKOUT_HOOK_PATH = ".husky/post-checkout";
-
-/** Path for the husky post-merge hook. */
-export const POST_MERGE_HOOK_PATH = ".husky/post-merge";
+/** Directory holding the husky hook scripts. */
+export const HUSKY_HOOKS_DIR = ".husky";
 
 /** Default path for the lint-staged config file. */
 export const DEFAULT_CONFIG_PATH = "lib/configs/lint-staged.config.ts";
@@ -20,6 +19,82 @@ export const DEFAULT_CONFIG_PATH = "lib/configs/lint-staged.config.ts";
 /** Path for the markdownlint-cli2 config file. */
 export const MARKDOWNLINT_CONFIG_PATH = "lib/configs/.markdownlint-cli2.jsonc";
 
+/** Git hooks savvy-lint manages. */
+export type GitHook = "pre-commit" | "post-checkout" | "post-merge" | "commit-msg" | "pre-push";
+
+/** Header comments written at the top of new hook files, by hook. */
+export const HOOK_COMMENTS: Record<GitHook, string> = {
+	"pre-commit": "Pre-commit hook with savvy-lint managed section",
+	"post-checkout": "Post-checkout hook with savvy-lint managed section",
+	"post-merge": "Post-merge hook with savvy-lint managed section",
+	"commit-msg": "Commit-msg hook with savvy-lint managed section",
+	"pre-push": "Pre-push hook with savvy-lint managed section",
+};
+
+/** First line of a savvy-lint managed section in a hook file. */
+export const MANAGED_SECTION_BEGIN = "# --- BEGIN SAVVY-LINT MANAGED SECTION ---";
+
+/** Last line of a savvy-lint managed section in a hook file. */
+export const MANAGED_SECTION_END = "# --- END SAVVY-LINT MANAGED SECTION ---";
+
+/**
+ * Generate the header written to a new hook file before its managed section.
+ *
+ * @param comment - Comment describing the hook
+ * @returns The hook file header
+ */
+export function hookHeader(comment: string): string {
+	return `#!/usr/bin/env sh\n# ${comment}\n# Custom hooks can go above or below the managed section\n`;
+}
+
+/**
+ * Generate the lint-staged config file content.
+ *
+ * @param preset - The preset to use
+ * @returns Config file content
+ */
+export function generateConfigContent(preset: PresetType): string {
+	return `/**
+ * lint-staged configuration
+ * Generated by savvy-lint init
+ */
+import { Preset } from "@savvy-web/lint-staged";
+
+export default Preset.${preset}();
+`;
+}
+
+/**
+ * Extract the config path from an installed pre-commit invocation.
+ *
+ * @param installed - The managed section content, or the hook manager command
+ * @returns The config path found, or null if not found
+ */
+export function extractConfigPath(installed: string): string | null {
+	// Look for: lint-staged --config "$ROOT/{path}" (managed section) or "{path}" (command)
+	const match = installed.match(/lint-staged --config "(?:\$ROOT\/)?([^"]+)"/);
+	return match ? match[1] : null;
+}
+
+/** CI environment variables the managed pre-commit section always skips on. */
+const DEFAULT_CI_ENV_VARS = ["CI", "GITHUB_ACTIONS"] as const;
+
+/**
+ * Extract the additional CI environment variables from an installed pre-commit invocation.
+ *
+ * @param installed - The managed section content, or the hook manager command
+ * @returns The variables checked besides the defaults
+ */
+export function extractCiEnvVars(installed: string): string[] {
+	const condition = installed.match(/^if ! \{ (.*?) \}; then/m)?.[1] ?? "";
+	return [...condition.matchAll(/\[ -n "\$(\w+)" \]/g)]
+		.map((match) => match[1])
+		.filter((name) => !(DEFAULT_CI_ENV_VARS as readonly string[]).includes(name));
+}
+
+/** Formatting options for jsonc-effect surgical edits. */
+export const JSONC_FORMAT: Partial<JsoncFormattingOptions> = { tabSize: 1, insertSpaces: false };
+
 /** Section definition for savvy-lint managed sections in shell hooks. */
 export const SavvyLintSection = ShellSectionDefinition.make({ toolName: "SAVVY-LINT" });
 
@@ -32,21 +107,8 @@ export const SavvyLintSection = ShellSectionDefinition.make({ toolName: "SAVVY-L
  */
 export const SavvyLintSectionDef = SectionDefinition.make({ toolName: "SAVVY-LINT" });
 
-/**
- * Generate the managed section content for the pre-commit hook.
- *
- * @param configPath - Path to the lint-staged config file
- * @returns The managed section content (without markers)
- */
-export function generateManagedContent(configPath: string): string {
-	return `# DO NOT EDIT between these markers - managed by savvy-lint
-# Skip in CI environment
-if ! { [ -n "$CI" ] || [ -n "$GITHUB_ACTIONS" ]; }; then
-
-# Get repo root directory
-ROOT=$(git rev-parse --show-toplevel)
-
-# Detect package manager from package.json or lockfiles
+/** Shell function printing the package manager, from package.json or lockfiles (uses `$ROOT`). */
+const DETECT_PM_FUNCTION = `# Detect package manager from package.json or lockfiles
 detect_pm() {
   # Check packageManager field in package.json (e.g., "pnpm@9.0.0")
   if [ -f "$ROOT/package.json" ]; then
@@ -67,8 +129,43 @@ detect_pm() {
   else
     echo "npm"
   fi
+}`;
+
+/**
+ * Build the shell condition under which the pre-commit hook does nothing.
+ *
+ * @param ciEnvVars - CI environment variables to skip on besides `CI` and `GITHUB_ACTIONS`
+ * @returns The test commands joined with `||`
+ */
+function preCommitSkipCondition(ciEnvVars: readonly string[]): string {
+	return [
+		...[...DEFAULT_CI_ENV_VARS, ...ciEnvVars].map((name) => `[ -n "$${name}" ]`),
+		...Handler.skipAllValues.map((value) => `[ "$${Handler.skipEnvVar}" = "${value}" ]`),
+	].join(" || ");
 }
 
+/**
+ * Generate the managed section content for the pre-commit hook.
+ *
+ * @remarks
+ * The hook is skipped in CI and when `SAVVY_LINT_SKIP` is `1`, `true` or
+ * `all`. A list of handler names in `SAVVY_LINT_SKIP` reaches lint-staged
+ * unchanged, where the named handlers skip themselves.
+ *
+ * @param configPath - Path to the lint-staged config file
+ * @param ciEnvVars - CI environment variables to skip on besides `CI` and `GITHUB_ACTIONS`
+ * @returns The managed section content (without markers)
+ */
+export function generateManagedContent(configPath: string, ciEnvVars: readonly string[] = []): string {
+	return `# DO NOT EDIT between these markers - managed by savvy-lint
+# Skip in CI environment, or when ${Handler.skipEnvVar} skips all handlers
+if ! { ${preCommitSkipCondition(ciEnvVars)}; }; then
+
+# Get repo root directory
+ROOT=$(git rev-parse --show-toplevel)
+
+${DETECT_PM_FUNCTION}
+
 # Run lint-staged with the detected package manager
 PM=$(detect_pm)
 case "$PM" in
@@ -100,8 +197,168 @@ git ls-files -z '*.sh' | xargs -0 -r chmod +x 2>/dev/null || true
 fi`;
 }
 
+/**
+ * Generate the managed section content for the commit-msg hook.
+ *
+ * @returns The managed section content (without markers)
+ */
+export function generateCommitMsgManagedContent(): string {
+	return `# DO NOT EDIT between these markers - managed by savvy-lint
+# Skip in CI environment
+if ! { [ -n "$CI" ] || [ -n "$GITHUB_ACTIONS" ]; }; then
+
+# Get repo root directory
+ROOT=$(git rev-parse --show-toplevel)
+
+${DETECT_PM_FUNCTION}
+
+# Run commitlint on the commit message with the detected package manager
+PM=$(detect_pm)
+case "$PM" in
+  pnpm) pnpm exec commitlint --edit "$1" ;;
+  yarn) yarn exec commitlint --edit "$1" ;;
+  bun)  bunx commitlint --edit "$1" ;;
+  *)    npx --no -- commitlint --edit "$1" ;;
+esac
+
+fi`;
+}
+
+/**
+ * Generate the managed section content for the pre-push hook.
+ *
+ * @param command - The pre-push pipeline, run from the repo root
+ * @returns The managed section content (without markers)
+ */
+export function generatePrePushManagedContent(command: string): string {
+	return `# DO NOT EDIT between these markers - managed by savvy-lint
+# Skip in CI environment
+if ! { [ -n "$CI" ] || [ -n "$GITHUB_ACTIONS" ]; }; then
+
+# Run from the repo root
+cd "$(git rev-parse --show-toplevel)" || exit 1
+
+# Run the pre-push pipeline
+${command}
+
+fi`;
+}
+
+/**
+ * Extract the pipeline command from an installed pre-push invocation.
+ *
+ * @param installed - The managed section content, or the hook manager command
+ * @returns The pre-push command
+ */
+export function extractPrePushCommand(installed: string): string {
+	const match = installed.match(/# Run the pre-push pipeline\n(.+)\n/);
+	return match ? match[1] : installed.trim();
+}
+
 /** Block factory for pre-commit hook content. */
 export const preCommitBlock = SavvyLintSection.generate(generateManagedContent);
 
 /** Create a section block for shell script hooks (post-checkout, post-merge). */
 export const shellScriptsBlock = () => SavvyLintSection.block(generateShellScriptsManagedContent());
+
+/** Create a section block for the commit-msg hook. */
+export const commitMsgBlock = () => SavvyLintSection.block(generateCommitMsgManagedContent());
+
+/** Block factory for pre-push hook content. */
+export const prePushBlock = SavvyLintSection.generate(generatePrePushManagedContent);
+
+/**
+ * What savvy-lint installs for one git hook, in the forms hook managers need.
+ */
+export interface HookSpec {
+	/** The git hook */
+	hook: GitHook;
+	/** Managed section for hook scripts (husky, core.hooksPath) */
+	block: SectionBlock;
+	/** Equivalent one-line command for config-based hook managers (lefthook, simple-git-hooks) */
+	command: string;
+	/**
+	 * Matches the savvy-lint command, including outdated versions of it.
+	 *
+	 * @remarks
+	 * Null when savvy-lint's command is the whole hook command, so it can't be
+	 * chained with others (simple-git-hooks).
+	 */
+	pattern: RegExp | null;
+}
+
+/**
+ * Get the exec prefix of the detected package manager for one-line commands.
+ *
+ * @returns The prefix, e.g. `pnpm exec` or `npx --no --`
+ */
+function execPrefix(): string {
+	const pm = Command.detectPackageManager();
+	return [...Command.getExecPrefix(pm), ...(pm === "npm" ? ["--"] : [])].join(" ");
+}
+
+/**
+ * Build the pre-commit hook spec.
+ *
+ * @remarks
+ * The one-line command uses the exec prefix of the package manager detected
+ * now; the managed section detects it each time the hook runs. Both skip
+ * the hook under the same conditions.
+ *
+ * @param configPath - Path to the lint-staged config file
+ * @param ciEnvVars - Additional CI environment variables the hook skips on
+ * @returns The pre-commit hook spec
+ */
+export function preCommitSpec(configPath: string, ciEnvVars: readonly string[] = []): HookSpec {
+	const lintStaged = `${execPrefix()} lint-staged --config "${configPath}"`;
+	return {
+		hook: "pre-commit",
+		block: preCommitBlock(configPath, ciEnvVars),
+		command: `if ! { ${preCommitSkipCondition(ciEnvVars)}; }; then ${lintStaged}; fi`,
+		pattern: /lint-staged --config /,
+	};
+}
+
+/**
+ * Build the spec for a shell script hook (post-checkout, post-merge).
+ *
+ * @param hook - The git hook
+ * @returns The shell script hook spec
+ */
+export function shellScriptsSpec(hook: "post-checkout" | "post-merge"): HookSpec {
+	return {
+		hook,
+		block: shellScriptsBlock(),
+		command: "(git config core.fileMode false; git ls-files -z '*.sh' | xargs -0 -r chmod +x 2>/dev/null || true)",
+		pattern: /git config core\.fileMode false/,
+	};
+}
+
+/**
+ * Build the commit-msg hook spec.
+ *
+ * @remarks
+ * The one-line command omits the message file argument: commitlint's
+ * `--edit` then reads `.git/COMMIT_EDITMSG`, which works with hook managers
+ * that don't pass hook arguments through.
+ *
+ * @returns The commit-msg hook spec
+ */
+export function commitMsgSpec(): HookSpec {
+	return {
+		hook: "commit-msg",
+		block: commitMsgBlock(),
+		command: `${execPrefix()} commitlint --edit`,
+		pattern: /commitlint --edit/,
+	};
+}
+
+/**
+ * Build the pre-push hook spec.
+ *
+ * @param command - The pre-push pipeline, e.g. a full type check
+ * @returns The pre-push hook spec
+ */
+export function prePushSpec(command: string): HookSpec {
+	return { hook: "pre-push", block: prePushBlock(command), command, pattern: null };
+}
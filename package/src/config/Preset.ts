@@ -61,12 +61,16 @@ export class Preset {
 			pnpmWorkspace: extend.pnpmWorkspace ?? false,
 			shellScripts: extend.shellScripts ?? false,
 			typescript: extend.typescript ?? false,
+			stylelint: extend.stylelint ?? false,
 		};
 
 		// Only add custom if defined
 		if (extend.custom !== undefined) {
 			options.custom = extend.custom;
 		}
+		if (extend.ignoreFiles !== undefined) {
+			options.ignoreFiles = extend.ignoreFiles;
+		}
 
 		return createConfig(options);
 	}
@@ -106,18 +110,22 @@ export class Preset {
 
 			// Disable advanced handlers
 			typescript: extend.typescript ?? false,
+			stylelint: extend.stylelint ?? false,
 		};
 
 		// Only add custom if defined
 		if (extend.custom !== undefined) {
 			options.custom = extend.custom;
 		}
+		if (extend.ignoreFiles !== undefined) {
+			options.ignoreFiles = extend.ignoreFiles;
+		}
 
 		return createConfig(options);
 	}
 
 	/**
-	 * Silk preset: all handlers enabled.
+	 * Silk preset: all default handlers enabled.
 	 *
 	 * Includes:
 	 * - PackageJson (sort + format)
@@ -142,7 +150,7 @@ export class Preset {
 	 */
 	static silk(extend: PresetExtendOptions = {}): LintStagedConfig {
 		const options: CreateConfigOptions = {
-			// Enable all handlers
+			// Enable all default handlers
 			packageJson: extend.packageJson ?? {},
 			biome: extend.biome ?? {},
 			markdown: extend.markdown ?? {},
@@ -150,12 +158,18 @@ export class Preset {
 			pnpmWorkspace: extend.pnpmWorkspace ?? {},
 			shellScripts: extend.shellScripts ?? {},
 			typescript: extend.typescript ?? {},
+
+			// Opt-in handlers
+			stylelint: extend.stylelint ?? false,
 		};
 
 		// Only add custom if defined
 		if (extend.custom !== undefined) {
 			options.custom = extend.custom;
 		}
+		if (extend.ignoreFiles !== undefined) {
+			options.ignoreFiles = extend.ignoreFiles;
+		}
 
 		return createConfig(options);
 	}
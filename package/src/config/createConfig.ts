@@ -2,18 +2,214 @@
  * Configuration factory for generating complete lint-staged configurations.
  */
 
+import { Handler } from "../Handler.js";
 import { Biome } from "../handlers/Biome.js";
 import { Markdown } from "../handlers/Markdown.js";
 import { PackageJson } from "../handlers/PackageJson.js";
 import { PnpmWorkspace } from "../handlers/PnpmWorkspace.js";
 import { ShellScripts } from "../handlers/ShellScripts.js";
+import { Stylelint } from "../handlers/Stylelint.js";
 import { TypeScript } from "../handlers/TypeScript.js";
 import { Yaml } from "../handlers/Yaml.js";
-import type { CreateConfigOptions, LintStagedConfig } from "../types.js";
+import type {
+	BiomeOptions,
+	CreateConfigOptions,
+	LintStagedConfig,
+	LintStagedEntry,
+	LintStagedHandler,
+	MarkdownOptions,
+	PackageJsonOptions,
+	PnpmWorkspaceOptions,
+	ShellScriptsOptions,
+	StylelintOptions,
+	TypeScriptOptions,
+	YamlOptions,
+} from "../types.js";
+import { Filter } from "../utils/Filter.js";
+
+/**
+ * Key under which {@link createConfig} records its options on the config.
+ *
+ * @remarks
+ * A registered symbol, so the options can still be read when the config and
+ * the CLI load separate copies of this module.
+ */
+const CONFIG_OPTIONS = Symbol.for("@savvy-web/lint-staged/createConfigOptions");
+
+/**
+ * Get the options a configuration was created with.
+ *
+ * @param config - A lint-staged configuration
+ * @returns The options passed to {@link createConfig}, or undefined if the config was not created by it
+ */
+export function getConfigOptions(config: LintStagedConfig): CreateConfigOptions | undefined {
+	return (config as { [CONFIG_OPTIONS]?: CreateConfigOptions })[CONFIG_OPTIONS];
+}
+
+/**
+ * Key under which {@link createConfig} records the steps of each built-in entry.
+ */
+const CONFIG_STEPS = Symbol.for("@savvy-web/lint-staged/createConfigSteps");
+
+/**
+ * A built-in handler step: the factory that created it and the options it was given.
+ */
+export type ConfigStep =
+	| { handler: "PackageJson.fmtCommand" | "PackageJson.create"; options: PackageJsonOptions }
+	| { handler: "Biome.create" | "Biome.scriptCommand"; options: BiomeOptions }
+	| { handler: "Markdown.create"; options: MarkdownOptions }
+	| { handler: "PnpmWorkspace.fmtCommand" | "PnpmWorkspace.create"; options: PnpmWorkspaceOptions }
+	| { handler: "Yaml.fmtCommand" | "Yaml.create"; options: YamlOptions }
+	| {
+			handler: "ShellScripts.fmtCommand" | "ShellScripts.create" | "ShellScripts.indexCommand";
+			options: ShellScriptsOptions;
+	  }
+	| { handler: "TypeScript.create"; options: TypeScriptOptions }
+	| { handler: "Stylelint.create"; options: StylelintOptions };
+
+/**
+ * Get the built-in handler steps a configuration was created with.
+ *
+ * @remarks
+ * Globs replaced by `custom` entries are not listed.
+ *
+ * @param config - A lint-staged configuration
+ * @returns Steps keyed by glob, or undefined if the config was not created by {@link createConfig}
+ */
+export function getConfigSteps(config: LintStagedConfig): Record<string, ConfigStep[]> | undefined {
+	return (config as { [CONFIG_STEPS]?: Record<string, ConfigStep[]> })[CONFIG_STEPS];
+}
+
+/**
+ * Create the handler for a built-in step.
+ *
+ * @remarks
+ * Only factories run here; the returned handler is not called.
+ *
+ * @param step - The step to create
+ * @returns The handler function
+ */
+export function createStep(step: ConfigStep): LintStagedHandler {
+	switch (step.handler) {
+		case "PackageJson.fmtCommand":
+			return PackageJson.fmtCommand(step.options);
+		case "PackageJson.create":
+			return PackageJson.create(step.options);
+		case "Biome.create":
+			return Biome.create(step.options);
+		case "Biome.scriptCommand":
+			return Biome.scriptCommand(step.options);
+		case "Markdown.create":
+			return Markdown.create(step.options);
+		case "PnpmWorkspace.fmtCommand":
+			return PnpmWorkspace.fmtCommand(step.options);
+		case "PnpmWorkspace.create":
+			return PnpmWorkspace.create(step.options);
+		case "Yaml.fmtCommand":
+			return Yaml.fmtCommand(step.options);
+		case "Yaml.create":
+			return Yaml.create(step.options);
+		case "ShellScripts.fmtCommand":
+			return ShellScripts.fmtCommand(step.options);
+		case "ShellScripts.create":
+			return ShellScripts.create(step.options);
+		case "ShellScripts.indexCommand":
+			return ShellScripts.indexCommand(step.options);
+		case "TypeScript.create":
+			return TypeScript.create(step.options);
+		case "Stylelint.create":
+			return Stylelint.create(step.options);
+	}
+}
+
+/**
+ * Glob of each built-in handler's entry, by {@link CreateConfigOptions} key.
+ */
+const HANDLER_GLOBS = [
+	["packageJson", PackageJson.glob],
+	["biome", Biome.glob],
+	["markdown", Markdown.glob],
+	["pnpmWorkspace", PnpmWorkspace.glob],
+	["yaml", Yaml.glob],
+	["shellScripts", ShellScripts.glob],
+	["shellScripts", ShellScripts.indexGlob],
+	["typescript", TypeScript.glob],
+	["stylelint", Stylelint.glob],
+] as const;
+
+/**
+ * Replace the entries of handlers skipped through `SAVVY_LINT_SKIP` with no-ops.
+ *
+ * @remarks
+ * With `SAVVY_LINT_SKIP=all`, custom entries are replaced too. Prints one
+ * warning listing what was skipped.
+ *
+ * @param config - The configuration to update in place
+ * @param customGlobs - Globs of the custom entries
+ */
+function applySkippedHandlers(config: LintStagedConfig, customGlobs: readonly string[]): void {
+	const skipped: string[] = [];
+
+	for (const [key, glob] of HANDLER_GLOBS) {
+		if (glob in config && Handler.isSkipped(key)) {
+			config[glob] = () => [];
+			skipped.push(key);
+		}
+	}
+
+	if (Handler.getSkipped() === "all") {
+		for (const glob of customGlobs) {
+			config[glob] = () => [];
+			skipped.push(glob);
+		}
+	}
+
+	if (skipped.length > 0) {
+		console.warn(`\u26A0 Skipped by ${Handler.skipEnvVar}: ${skipped.join(", ")}`);
+	}
+}
+
+/**
+ * Wrap every handler function in a config entry so ignored files never reach it.
+ *
+ * @param entry - A config value: handler, command, or array of steps
+ * @param getPatterns - Lazily resolved ignore patterns (glob mode)
+ * @returns The entry with its handler functions wrapped
+ */
+function applyIgnorePatterns(
+	entry: LintStagedEntry | LintStagedEntry[],
+	getPatterns: () => string[],
+): LintStagedEntry | LintStagedEntry[] {
+	if (typeof entry === "function") {
+		return (filenames: readonly string[]) => {
+			const filtered = Filter.exclude(filenames, getPatterns(), "glob");
+			return filtered.length === 0 ? [] : entry(filtered);
+		};
+	}
+
+	if (Array.isArray(entry)) {
+		return entry.map((step) => applyIgnorePatterns(step, getPatterns)) as LintStagedEntry[];
+	}
+
+	return entry;
+}
 
 /**
  * Create a complete lint-staged configuration with all handlers.
  *
+ * @remarks
+ * Files matched by `.gitignore` and `.savvylintignore` (at the workspace root
+ * and in each package) are filtered out before any handler runs. Configure
+ * the files read with `ignoreFiles`, or pass `false` to disable.
+ *
+ * Handlers named in `SAVVY_LINT_SKIP` (e.g. `markdown,typescript`, or
+ * `all`) are replaced with no-ops and listed in a warning, so a broken tool
+ * can be bypassed for one commit without `--no-verify`.
+ *
+ * The options and the steps of each built-in entry are recorded on the
+ * returned config (as non-enumerable properties) so {@link describeConfig}
+ * can report what each handler resolved.
+ *
  * @param options - Configuration options for each handler
  * @returns A lint-staged compatible configuration object
  *
@@ -36,77 +232,132 @@ import type { CreateConfigOptions, LintStagedConfig } from "../types.js";
  */
 export function createConfig(options: CreateConfigOptions = {}): LintStagedConfig {
 	const config: LintStagedConfig = {};
+	const steps: Record<string, ConfigStep[]> = {};
+
+	// A single step is a plain handler; several run sequentially as an array
+	const addEntry = (glob: string, ...entrySteps: ConfigStep[]): void => {
+		steps[glob] = entrySteps;
+		const handlers = entrySteps.map(createStep);
+		config[glob] = handlers.length === 1 ? (handlers[0] as LintStagedHandler) : handlers;
+	};
 
 	const pkgJsonEnabled = options.packageJson !== false;
 	const biomeEnabled = options.biome !== false;
+	const pkgOpts = typeof options.packageJson === "object" ? options.packageJson : {};
+	const biomeOpts = typeof options.biome === "object" ? options.biome : {};
 
 	// PackageJson + Biome: use array syntax for sequential execution
 	// Step 1: sort via CLI command (auto-staged), Step 2: biome format
 	if (pkgJsonEnabled && biomeEnabled) {
-		const pkgOpts = typeof options.packageJson === "object" ? options.packageJson : {};
-		const biomeOpts = typeof options.biome === "object" ? options.biome : {};
-
-		config[PackageJson.glob] = [
-			PackageJson.fmtCommand(pkgOpts),
-			Biome.create({
-				...biomeOpts,
-				exclude: [...PackageJson.defaultExcludes],
-			}),
-		];
+		addEntry(
+			PackageJson.glob,
+			{ handler: "PackageJson.fmtCommand", options: pkgOpts },
+			{ handler: "Biome.create", options: { ...biomeOpts, exclude: [...PackageJson.defaultExcludes] } },
+		);
 	} else if (pkgJsonEnabled) {
-		const pkgOpts = typeof options.packageJson === "object" ? options.packageJson : {};
-		config[PackageJson.glob] = PackageJson.create(pkgOpts);
+		addEntry(PackageJson.glob, { handler: "PackageJson.create", options: pkgOpts });
 	}
 
 	// Biome handler (standalone — excludes package.json by default)
 	if (biomeEnabled) {
-		const handlerOptions = typeof options.biome === "object" ? options.biome : {};
-		config[Biome.glob] = Biome.create(handlerOptions);
+		addEntry(Biome.glob, { handler: "Biome.create", options: biomeOpts });
 	}
 
 	// Markdown handler
 	if (options.markdown !== false) {
 		const handlerOptions = typeof options.markdown === "object" ? options.markdown : {};
-		config[Markdown.glob] = Markdown.create(handlerOptions);
+		addEntry(Markdown.glob, { handler: "Markdown.create", options: handlerOptions });
 	}
 
 	const pnpmEnabled = options.pnpmWorkspace !== false;
 	const yamlEnabled = options.yaml !== false;
+	const pnpmOpts = typeof options.pnpmWorkspace === "object" ? options.pnpmWorkspace : {};
 
 	// PnpmWorkspace + Yaml: use array syntax for sequential execution
 	// Step 1: sort/format via CLI command (auto-staged), Step 2: validate only
 	if (pnpmEnabled && yamlEnabled) {
 		// exclude: [] overrides Yaml.defaultExcludes so pnpm-workspace.yaml is validated
-		config[PnpmWorkspace.glob] = [PnpmWorkspace.fmtCommand(), Yaml.create({ exclude: [], skipFormat: true })];
+		addEntry(
+			PnpmWorkspace.glob,
+			{ handler: "PnpmWorkspace.fmtCommand", options: pnpmOpts },
+			{ handler: "Yaml.create", options: { exclude: [], skipFormat: true } },
+		);
 	} else if (pnpmEnabled) {
-		const pnpmOpts = typeof options.pnpmWorkspace === "object" ? options.pnpmWorkspace : {};
-		config[PnpmWorkspace.glob] = PnpmWorkspace.create(pnpmOpts);
+		addEntry(PnpmWorkspace.glob, { handler: "PnpmWorkspace.create", options: pnpmOpts });
 	}
 
 	// Yaml handler: format via CLI command (auto-staged), then validate
 	if (yamlEnabled) {
 		const yamlOpts = typeof options.yaml === "object" ? options.yaml : {};
-		config[Yaml.glob] = [Yaml.fmtCommand(yamlOpts), Yaml.create({ ...yamlOpts, skipFormat: true })];
+		addEntry(
+			Yaml.glob,
+			{ handler: "Yaml.fmtCommand", options: yamlOpts },
+			{ handler: "Yaml.create", options: { ...yamlOpts, skipFormat: true } },
+		);
 	}
 
-	// ShellScripts handler
+	// ShellScripts handler: format via shfmt command (auto-staged), then chmod and lint
+	const shellSteps: ConfigStep[] = [];
 	if (options.shellScripts !== false) {
 		const handlerOptions = typeof options.shellScripts === "object" ? options.shellScripts : {};
-		config[ShellScripts.glob] = ShellScripts.create(handlerOptions);
+		if (!handlerOptions.skipFormat) shellSteps.push({ handler: "ShellScripts.fmtCommand", options: handlerOptions });
+		shellSteps.push({ handler: "ShellScripts.create", options: { ...handlerOptions, updateIndex: false } });
+		addEntry(ShellScripts.glob, ...shellSteps);
+
+		// Entries run concurrently, so a single entry updates the git index to avoid index.lock conflicts
+		if (handlerOptions.updateIndex) {
+			addEntry(ShellScripts.indexGlob, { handler: "ShellScripts.indexCommand", options: handlerOptions });
+		}
+	}
+
+	// Extensionless scripts: each step keeps only the files its shebang routes to it
+	const shebangSteps: ConfigStep[] = [...shellSteps];
+	if (biomeEnabled) {
+		shebangSteps.push({ handler: "Biome.scriptCommand", options: biomeOpts });
+	}
+	if (shebangSteps.length > 0) {
+		addEntry(ShellScripts.shebangGlob, ...shebangSteps);
 	}
 
 	// TypeScript handler
 	if (options.typescript !== false) {
 		const handlerOptions = typeof options.typescript === "object" ? options.typescript : {};
-		config[TypeScript.glob] = TypeScript.create(handlerOptions);
+		addEntry(TypeScript.glob, { handler: "TypeScript.create", options: handlerOptions });
+	}
+
+	// Stylelint handler (opt-in)
+	if (options.stylelint !== undefined && options.stylelint !== false) {
+		addEntry(Stylelint.glob, { handler: "Stylelint.create", options: options.stylelint });
 	}
 
 	// Custom handlers
 	if (options.custom) {
 		for (const [glob, handler] of Object.entries(options.custom)) {
 			config[glob] = handler;
+			delete steps[glob];
 		}
 	}
 
+	// Skipped handlers: no-ops for this run
+	applySkippedHandlers(config, Object.keys(options.custom ?? {}));
+
+	// Ignore files: filter every handler's input, read once on first use
+	if (options.ignoreFiles !== false) {
+		const ignoreFiles = options.ignoreFiles ?? [...Filter.defaultIgnoreFiles];
+		let ignorePatterns: string[] | undefined;
+		const getPatterns = (): string[] => {
+			ignorePatterns ??= Filter.findIgnorePatterns(ignoreFiles);
+			return ignorePatterns;
+		};
+
+		for (const [glob, entry] of Object.entries(config)) {
+			config[glob] = applyIgnorePatterns(entry, getPatterns);
+		}
+	}
+
+	// Non-enumerable, so lint-staged never sees it
+	Object.defineProperty(config, CONFIG_OPTIONS, { value: options });
+	Object.defineProperty(config, CONFIG_STEPS, { value: steps });
+
 	return config;
 }
@@ -0,0 +1,347 @@
+/**
+ * Describe what a lint-staged configuration resolves to.
+ */
+
+import { Biome } from "../handlers/Biome.js";
+import { Markdown } from "../handlers/Markdown.js";
+import { PackageJson } from "../handlers/PackageJson.js";
+import { ShellScripts } from "../handlers/ShellScripts.js";
+import { Stylelint } from "../handlers/Stylelint.js";
+import { TypeScript } from "../handlers/TypeScript.js";
+import { Yaml } from "../handlers/Yaml.js";
+import type { LintStagedConfig, LintStagedEntry } from "../types.js";
+import type { PackageManager } from "../utils/Command.js";
+import { Command } from "../utils/Command.js";
+import { Filter } from "../utils/Filter.js";
+import type { ConfigStep } from "./createConfig.js";
+import { getConfigOptions, getConfigSteps } from "./createConfig.js";
+
+/**
+ * An external tool a step runs.
+ */
+export interface ResolvedTool {
+	/** The tool name, e.g. `biome` */
+	name: string;
+	/** Whether the tool was found */
+	available: boolean;
+	/** The command used to invoke it, or null if not found */
+	command: string | null;
+	/** Where the tool was found: `global`, the package manager name, or null */
+	source: "global" | PackageManager | null;
+}
+
+/**
+ * One step of a glob, with the values its handler resolved.
+ */
+export interface ResolvedStep {
+	/** The producing handler, e.g. `Biome.create`; `function` or `command` for plain entries */
+	handler: string;
+	/** The config file passed to the tool, or null if none */
+	config: string | null;
+	/** Exclude patterns the handler applies */
+	excludes: string[];
+	/** External tools the step runs */
+	tools: ResolvedTool[];
+	/** Remaining handler options, with defaults applied */
+	options: Record<string, unknown>;
+}
+
+/**
+ * A glob key and its steps, in execution order.
+ */
+export interface ResolvedGlob {
+	/** The glob key from the configuration */
+	glob: string;
+	/** Steps run one after another; a single entry has one step */
+	steps: ResolvedStep[];
+}
+
+/**
+ * A JSON-serializable description of a lint-staged configuration.
+ */
+export interface ResolvedConfig {
+	/** Whether the config was created by `createConfig()`; otherwise handlers are opaque */
+	createConfig: boolean;
+	/** Ignore files applied before every handler */
+	ignoreFiles: string[];
+	/** Glob patterns read from the ignore files */
+	ignorePatterns: string[];
+	/** Every glob key, in configuration order */
+	globs: ResolvedGlob[];
+}
+
+/**
+ * Look up tools once per description, since each lookup spawns a process.
+ *
+ * @returns A function resolving a tool name to its description
+ */
+function createToolResolver(): (name: string) => ResolvedTool {
+	const cache = new Map<string, ResolvedTool>();
+	return (name) => {
+		let tool = cache.get(name);
+		if (tool === undefined) {
+			const result = Command.findTool(name);
+			tool = { name, available: result.available, command: result.command ?? null, source: result.source ?? null };
+			cache.set(name, tool);
+		}
+		return tool;
+	};
+}
+
+/**
+ * Describe a config entry that was not produced by a built-in handler.
+ *
+ * @param entry - A handler function, command string, or list of commands
+ * @returns The step description
+ */
+function describeEntry(entry: LintStagedEntry): ResolvedStep {
+	if (typeof entry === "function") {
+		return { handler: "function", config: null, excludes: [], tools: [], options: {} };
+	}
+	const commands = typeof entry === "string" ? [entry] : entry;
+	return { handler: "command", config: null, excludes: [], tools: [], options: { commands } };
+}
+
+/**
+ * Describe a built-in handler step recorded by {@link createConfig}.
+ *
+ * @remarks
+ * Resolves config files, tools and defaults the way each handler does.
+ *
+ * @param step - The recorded step
+ * @param tool - Resolves a tool name to its description
+ * @returns The step description
+ */
+function describeStep(step: ConfigStep, tool: (name: string) => ResolvedTool): ResolvedStep {
+	const { handler } = step;
+
+	switch (step.handler) {
+		case "PackageJson.fmtCommand": {
+			const opts = step.options;
+			return {
+				handler,
+				config: null,
+				excludes: [...(opts.exclude ?? PackageJson.defaultExcludes)],
+				tools: [tool("savvy-lint")],
+				options: { patternMode: opts.patternMode ?? "auto" },
+			};
+		}
+		case "PackageJson.create": {
+			const opts = step.options;
+			return {
+				handler,
+				config: opts.biomeConfig ?? null,
+				excludes: [...(opts.exclude ?? PackageJson.defaultExcludes)],
+				tools: opts.skipFormat ? [] : [tool("biome")],
+				options: {
+					skipSort: opts.skipSort ?? false,
+					skipFormat: opts.skipFormat ?? false,
+					patternMode: opts.patternMode ?? "auto",
+				},
+			};
+		}
+		case "Biome.create": {
+			const opts = step.options;
+			return {
+				handler,
+				config: opts.config ?? Biome.findConfig() ?? null,
+				excludes: [...(opts.exclude ?? Biome.defaultExcludes)],
+				tools: [tool("biome")],
+				options: { flags: opts.flags ?? [], patternMode: opts.patternMode ?? "auto" },
+			};
+		}
+		case "Biome.scriptCommand": {
+			const opts = step.options;
+			return {
+				handler,
+				config: opts.config ?? Biome.findConfig() ?? null,
+				excludes: [...(opts.exclude ?? Biome.defaultExcludes)],
+				tools: [tool("biome")],
+				options: { shebang: [...Biome.shebangInterpreters], patternMode: opts.patternMode ?? "auto" },
+			};
+		}
+		case "Markdown.create": {
+			const opts = step.options;
+			return {
+				handler,
+				config: opts.config ?? Markdown.findConfig() ?? null,
+				excludes: [...(opts.exclude ?? Markdown.defaultExcludes)],
+				tools: [tool("markdownlint-cli2")],
+				options: { noFix: opts.noFix ?? false, patternMode: opts.patternMode ?? "auto" },
+			};
+		}
+		case "PnpmWorkspace.fmtCommand":
+			return {
+				handler,
+				config: null,
+				excludes: [],
+				tools: [tool("savvy-lint")],
+				options: { skipCatalogCheck: step.options.skipCatalogCheck ?? false },
+			};
+		case "PnpmWorkspace.create": {
+			const opts = step.options;
+			return {
+				handler,
+				config: null,
+				excludes: [],
+				tools: [],
+				options: {
+					skipSort: opts.skipSort ?? false,
+					skipFormat: opts.skipFormat ?? false,
+					skipLint: opts.skipLint ?? false,
+					skipCatalogCheck: opts.skipCatalogCheck ?? false,
+				},
+			};
+		}
+		case "Yaml.fmtCommand": {
+			const opts = step.options;
+			return {
+				handler,
+				config: null,
+				excludes: [...(opts.exclude ?? Yaml.defaultExcludes)],
+				tools: [tool("savvy-lint")],
+				options: { patternMode: opts.patternMode ?? "auto" },
+			};
+		}
+		case "Yaml.create": {
+			const opts = step.options;
+			const config = opts.config ?? Yaml.findConfig() ?? null;
+			return {
+				handler,
+				config,
+				excludes: [...(opts.exclude ?? Yaml.defaultExcludes)],
+				tools: [],
+				options: {
+					schema: (config ? Yaml.loadConfig(config) : undefined) ?? null,
+					skipFormat: opts.skipFormat ?? false,
+					skipValidate: opts.skipValidate ?? false,
+					patternMode: opts.patternMode ?? "auto",
+				},
+			};
+		}
+		case "ShellScripts.fmtCommand": {
+			const opts = step.options;
+			return {
+				handler,
+				config: null,
+				excludes: [...(opts.exclude ?? ShellScripts.defaultExcludes)],
+				tools: [tool("shfmt")],
+				options: {
+					indent: opts.indent ?? ShellScripts.findIndent() ?? null,
+					patternMode: opts.patternMode ?? "auto",
+				},
+			};
+		}
+		case "ShellScripts.create": {
+			const opts = step.options;
+			return {
+				handler,
+				config: null,
+				excludes: [...(opts.exclude ?? ShellScripts.defaultExcludes)],
+				tools: opts.shellcheck ? [tool("shellcheck")] : [],
+				options: {
+					makeExecutable: opts.makeExecutable ?? false,
+					executable: opts.executable ?? [],
+					updateIndex: opts.updateIndex ?? false,
+					shellcheck: opts.shellcheck ?? false,
+					shellcheckFlags: ShellScripts.shellcheckFlags(opts),
+					patternMode: opts.patternMode ?? "auto",
+				},
+			};
+		}
+		case "ShellScripts.indexCommand": {
+			const opts = step.options;
+			return {
+				handler,
+				config: null,
+				excludes: [...(opts.exclude ?? ShellScripts.defaultExcludes)],
+				tools: [],
+				options: {
+					makeExecutable: opts.makeExecutable ?? false,
+					executable: opts.executable ?? [],
+					patternMode: opts.patternMode ?? "auto",
+				},
+			};
+		}
+		case "TypeScript.create": {
+			const opts = step.options;
+			const skipTsdoc = opts.skipTsdoc ?? false;
+			const skipTypecheck = opts.skipTypecheck ?? false;
+			const stagedDiagnosticsOnly = opts.stagedDiagnosticsOnly ?? false;
+			const compiler = opts.typecheckCommand === undefined ? TypeScript.detectCompiler() : undefined;
+
+			const tools: ResolvedTool[] = [];
+			if (!skipTsdoc || (!skipTypecheck && stagedDiagnosticsOnly)) tools.push(tool("savvy-lint"));
+			if (!skipTypecheck && compiler !== undefined) tools.push(tool(compiler));
+
+			return {
+				handler,
+				config: opts.tsdocConfig ?? null,
+				excludes: [...(opts.exclude ?? TypeScript.defaultExcludes)],
+				tools,
+				options: {
+					skipTsdoc,
+					skipTypecheck,
+					typecheckCommand: opts.typecheckCommand ?? (compiler ? TypeScript.getDefaultTypecheckCommand() : null),
+					typecheckScope: opts.typecheckCommand === undefined ? (opts.typecheckScope ?? "dependents") : null,
+					stagedDiagnosticsOnly,
+					patternMode: opts.patternMode ?? "auto",
+				},
+			};
+		}
+		case "Stylelint.create": {
+			const opts = step.options;
+			return {
+				handler,
+				config: opts.config ?? Stylelint.findConfig() ?? null,
+				excludes: [...(opts.exclude ?? Stylelint.defaultExcludes)],
+				tools: [tool("stylelint")],
+				options: { noFix: opts.noFix ?? false, patternMode: opts.patternMode ?? "auto" },
+			};
+		}
+	}
+}
+
+/**
+ * Describe a lint-staged configuration as JSON-serializable data.
+ *
+ * @remarks
+ * Configs returned by {@link createConfig} (including presets) are described
+ * in full: resolved config files, detected tools and where they were found,
+ * and effective excludes. Other configs only list their globs and whether
+ * each step is a function or a command, since their functions are opaque.
+ * Tools are looked up, but nothing is run and no files are modified.
+ *
+ * @param config - The lint-staged configuration
+ * @returns The resolved description
+ *
+ * @example
+ * ```typescript
+ * import { createConfig, describeConfig } from '@savvy-web/lint-staged';
+ *
+ * const resolved = describeConfig(createConfig({ markdown: false }));
+ * console.log(JSON.stringify(resolved, null, 2));
+ * ```
+ */
+export function describeConfig(config: LintStagedConfig): ResolvedConfig {
+	const options = getConfigOptions(config);
+	const recorded = getConfigSteps(config) ?? {};
+	const tool = createToolResolver();
+
+	const ignoreFiles =
+		options === undefined || options.ignoreFiles === false
+			? []
+			: (options.ignoreFiles ?? [...Filter.defaultIgnoreFiles]);
+
+	return {
+		createConfig: options !== undefined,
+		ignoreFiles,
+		ignorePatterns: ignoreFiles.length > 0 ? Filter.findIgnorePatterns(ignoreFiles) : [],
+		globs: Object.entries(config).map(([glob, value]) => ({
+			glob,
+			steps:
+				recorded[glob]?.map((step) => describeStep(step, tool)) ??
+				(Array.isArray(value) ? value : [value]).map(describeEntry),
+		})),
+	};
+}
@@ -0,0 +1,101 @@
+/**
+ * Discovery and loading of the project's lint-staged configuration.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parse } from "yaml";
+import type { LintStagedConfig } from "../types.js";
+
+/** Possible lint-staged configuration file names, in priority order. */
+export const CONFIG_FILES = [
+	"lint-staged.config.ts",
+	"lint-staged.config.js",
+	"lint-staged.config.mjs",
+	"lint-staged.config.cjs",
+	".lintstagedrc",
+	".lintstagedrc.json",
+	".lintstagedrc.yaml",
+	".lintstagedrc.yml",
+	".lintstagedrc.js",
+	".lintstagedrc.cjs",
+	".lintstagedrc.mjs",
+] as const;
+
+/** Paths to search for config files, relative to the repository root. */
+export const CONFIG_SEARCH_PATHS = [
+	"lib/configs/lint-staged.config.ts",
+	"lib/configs/lint-staged.config.js",
+	...CONFIG_FILES,
+] as const;
+
+/** Extensions loaded with `import()` rather than parsed as JSON/YAML. */
+const MODULE_EXTENSIONS = new Set([".ts", ".mts", ".cts", ".js", ".mjs", ".cjs"]);
+
+/**
+ * A lint-staged configuration loaded from disk.
+ */
+export interface LoadedConfig {
+	/** Absolute path of the config file */
+	path: string;
+	/** The configuration object */
+	config: LintStagedConfig;
+}
+
+/**
+ * Find the first existing lint-staged config file.
+ *
+ * @param cwd - Directory to search from (the repository root)
+ * @returns Absolute path to the config file, or null if none exists
+ */
+export function findConfigPath(cwd: string = process.cwd()): string | null {
+	for (const file of CONFIG_SEARCH_PATHS) {
+		const candidate = join(cwd, file);
+		if (existsSync(candidate)) {
+			return candidate;
+		}
+	}
+	return null;
+}
+
+/**
+ * Load a lint-staged configuration file.
+ *
+ * @remarks
+ * JavaScript and TypeScript configs are loaded with `import()` (TypeScript
+ * relies on Node's built-in type stripping). `.lintstagedrc` files without a
+ * module extension are parsed as YAML, which also covers JSON. A config that
+ * exports a single function is treated like lint-staged does: as a task
+ * that receives every file, i.e. `{ '*': fn }`.
+ *
+ * @param path - Path to the config file; defaults to {@link findConfigPath}
+ * @returns The loaded configuration and its absolute path
+ * @throws Error if no config file is found or the file does not export an object
+ */
+export async function loadConfig(path?: string): Promise<LoadedConfig> {
+	const configPath = path ? resolve(path) : findConfigPath();
+	if (configPath === null) {
+		throw new Error(`No lint-staged config file found. Searched: ${CONFIG_SEARCH_PATHS.join(", ")}`);
+	}
+	if (!existsSync(configPath)) {
+		throw new Error(`Config file not found: ${configPath}`);
+	}
+
+	let loaded: unknown;
+	if (MODULE_EXTENSIONS.has(extname(configPath))) {
+		const mod = (await import(pathToFileURL(configPath).href)) as { default?: unknown };
+		loaded = mod.default ?? mod;
+	} else {
+		loaded = parse(readFileSync(configPath, "utf-8"));
+	}
+
+	if (typeof loaded === "function") {
+		return { path: configPath, config: { "*": loaded as LintStagedConfig[string] } };
+	}
+	if (loaded === null || typeof loaded !== "object" || Array.isArray(loaded)) {
+		throw new Error(`Invalid lint-staged config in ${configPath}: expected an object`);
+	}
+
+	return { path: configPath, config: loaded as LintStagedConfig };
+}
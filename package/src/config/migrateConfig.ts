@@ -0,0 +1,317 @@
+/**
+ * Conversion of hand-written lint-staged configurations to handler options.
+ */
+
+import type { CreateConfigOptions, LintStagedConfig, LintStagedEntry, PresetType } from "../types.js";
+
+/**
+ * Built-in handler keys of {@link CreateConfigOptions}.
+ */
+export type HandlerKey = Exclude<keyof CreateConfigOptions, "custom" | "ignoreFiles">;
+
+/**
+ * A glob of the original config that was mapped to a built-in handler.
+ */
+export interface MigratedEntry {
+	/** The glob key in the original configuration */
+	glob: string;
+	/** The handler option it maps to */
+	handler: HandlerKey;
+}
+
+/**
+ * Result of migrating a lint-staged configuration.
+ */
+export interface MigrationResult {
+	/** Preset that enables exactly the recognized handlers, or null if `createConfig` is needed */
+	preset: PresetType | null;
+	/**
+	 * Options for `createConfig`, or the extend options for {@link MigrationResult.preset}.
+	 *
+	 * @remarks
+	 * For `createConfig`, handlers that had no equivalent entry are disabled
+	 * with `false`. Unrecognized entries are kept under `custom` unchanged.
+	 */
+	options: CreateConfigOptions;
+	/** Entries replaced by built-in handlers, in configuration order */
+	migrated: MigratedEntry[];
+	/** Glob keys kept under `custom`, in configuration order */
+	preserved: string[];
+}
+
+/** Built-in handler keys, in the order `createConfig` documents them. */
+const HANDLER_KEYS: readonly HandlerKey[] = [
+	"packageJson",
+	"biome",
+	"markdown",
+	"pnpmWorkspace",
+	"shellScripts",
+	"yaml",
+	"typescript",
+];
+
+/** Handlers each preset enables. */
+const PRESET_HANDLERS: Record<PresetType, readonly HandlerKey[]> = {
+	minimal: ["packageJson", "biome"],
+	standard: ["packageJson", "biome", "markdown", "pnpmWorkspace", "shellScripts", "yaml"],
+	silk: HANDLER_KEYS,
+};
+
+/** Package runner prefixes stripped before a command is recognized. */
+const RUNNER_PREFIX = /^(?:npx(?:\s+--no(?:\s+--)?)?|pnpm\s+(?:exec|dlx)|yarn(?:\s+exec)?|bunx)\s+/;
+
+/** Biome flags the Biome handler always passes. */
+const BIOME_DEFAULT_FLAGS = new Set(["--write", "--apply", "--no-errors-on-unmatched"]);
+
+/**
+ * A command recognized as one of the tools a built-in handler runs.
+ */
+type RecognizedCommand =
+	| { tool: "biome"; config?: string; flags: string[] }
+	| { tool: "markdownlint"; config?: string; fix: boolean }
+	| { tool: "prettier" }
+	| { tool: "yaml-lint" }
+	| { tool: "yq" }
+	| { tool: "sort-package-json" }
+	| { tool: "chmod"; executable: boolean }
+	| { tool: "tsc"; command?: string };
+
+/**
+ * Recognize a single lint-staged command.
+ *
+ * @param command - The command as written in the config
+ * @returns The recognized tool and its options, or null if not recognized
+ */
+function recognizeCommand(command: string): RecognizedCommand | null {
+	const [name, ...args] = command.trim().replace(RUNNER_PREFIX, "").split(/\s+/);
+
+	switch (name) {
+		case "biome": {
+			const [subcommand, ...rest] = args;
+			if (subcommand !== "check" && subcommand !== "format" && subcommand !== "lint") return null;
+
+			let config: string | undefined;
+			const flags: string[] = [];
+			for (let i = 0; i < rest.length; i++) {
+				const arg = rest[i];
+				if (arg.startsWith("--config-path=")) {
+					config = arg.slice("--config-path=".length);
+				} else if (arg === "--config-path") {
+					config = rest[++i];
+				} else if (!arg.startsWith("-")) {
+					return null;
+				} else if (!BIOME_DEFAULT_FLAGS.has(arg)) {
+					flags.push(arg);
+				}
+			}
+			return config === undefined ? { tool: "biome", flags } : { tool: "biome", config, flags };
+		}
+
+		case "markdownlint-cli2": {
+			let config: string | undefined;
+			let fix = false;
+			for (let i = 0; i < args.length; i++) {
+				if (args[i] === "--fix") {
+					fix = true;
+				} else if (args[i] === "--config" && i + 1 < args.length) {
+					config = args[++i];
+				} else {
+					return null;
+				}
+			}
+			return config === undefined ? { tool: "markdownlint", fix } : { tool: "markdownlint", config, fix };
+		}
+
+		case "prettier":
+			return args.every((arg) => arg === "--write" || arg === "-w" || arg === "--ignore-unknown" || arg === "-u")
+				? { tool: "prettier" }
+				: null;
+
+		case "yaml-lint":
+			return args.length === 0 ? { tool: "yaml-lint" } : null;
+
+		case "yq":
+			return { tool: "yq" };
+
+		case "sort-package-json":
+			return args.length === 0 ? { tool: "sort-package-json" } : null;
+
+		case "chmod":
+			return args.length === 1 && (args[0] === "+x" || args[0] === "-x")
+				? { tool: "chmod", executable: args[0] === "+x" }
+				: null;
+
+		case "tsc":
+		case "tsgo":
+			if (!args.includes("--noEmit")) return null;
+			return args.length === 1 ? { tool: "tsc" } : { tool: "tsc", command: command.trim() };
+
+		default:
+			return null;
+	}
+}
+
+/**
+ * Map the commands of one glob to a built-in handler.
+ *
+ * @param glob - The glob key
+ * @param commands - The glob's commands, in order
+ * @returns The handler and its options, or null if the commands don't match one
+ */
+function migrateEntry(glob: string, commands: string[]): { handler: HandlerKey; options: object } | null {
+	const recognized: RecognizedCommand[] = [];
+	for (const command of commands) {
+		const result = recognizeCommand(command);
+		if (result === null) return null;
+		recognized.push(result);
+	}
+
+	const tools = new Set(recognized.map((command) => command.tool));
+	const only = (...allowed: RecognizedCommand["tool"][]) => [...tools].every((tool) => allowed.includes(tool));
+	const biome = recognized.find((command) => command.tool === "biome");
+
+	if (tools.has("sort-package-json") && only("sort-package-json", "biome")) {
+		if (biome && biome.flags.length > 0) return null;
+		return {
+			handler: "packageJson",
+			options: {
+				...(biome ? {} : { skipFormat: true }),
+				...(biome?.config === undefined ? {} : { biomeConfig: biome.config }),
+			},
+		};
+	}
+
+	if (/(^|\/)pnpm-workspace\.yaml$/.test(glob) && only("yq", "prettier", "yaml-lint")) {
+		return {
+			handler: "pnpmWorkspace",
+			options: {
+				...(tools.has("yq") ? {} : { skipSort: true }),
+				...(tools.has("prettier") ? {} : { skipFormat: true }),
+				...(tools.has("yaml-lint") ? {} : { skipLint: true }),
+			},
+		};
+	}
+
+	if (/ya?ml/.test(glob) && only("prettier", "yaml-lint")) {
+		return {
+			handler: "yaml",
+			options: {
+				...(tools.has("prettier") ? {} : { skipFormat: true }),
+				...(tools.has("yaml-lint") ? {} : { skipValidate: true }),
+			},
+		};
+	}
+
+	if (recognized.length !== 1) return null;
+	const [command] = recognized;
+
+	switch (command.tool) {
+		case "biome":
+			return {
+				handler: "biome",
+				options: {
+					...(command.config === undefined ? {} : { config: command.config }),
+					...(command.flags.length === 0 ? {} : { flags: command.flags }),
+				},
+			};
+		case "markdownlint":
+			return {
+				handler: "markdown",
+				options: {
+					...(command.config === undefined ? {} : { config: command.config }),
+					...(command.fix ? {} : { noFix: true }),
+				},
+			};
+		case "chmod":
+			return { handler: "shellScripts", options: command.executable ? { makeExecutable: true } : {} };
+		case "tsc":
+			return {
+				handler: "typescript",
+				options: command.command === undefined ? {} : { typecheckCommand: command.command },
+			};
+		default:
+			return null;
+	}
+}
+
+/**
+ * Get the commands of a static config entry.
+ *
+ * @param entry - A config value
+ * @returns The commands, or null if the entry contains a function
+ */
+function staticCommands(entry: LintStagedEntry | LintStagedEntry[]): string[] | null {
+	if (typeof entry === "string") return [entry];
+	if (!Array.isArray(entry)) return null;
+	const steps = entry.flat();
+	return steps.every((step) => typeof step === "string") ? steps : null;
+}
+
+/**
+ * Convert a hand-written lint-staged configuration to handler options.
+ *
+ * @remarks
+ * Static command entries running the tools of a built-in handler (Biome,
+ * markdownlint-cli2, Prettier or yaml-lint on YAML, sort-package-json,
+ * `chmod` on shell scripts, `tsc --noEmit`) are mapped to that handler's
+ * options. Everything else, including every function entry, is kept under
+ * `custom` unchanged. When the recognized handlers are exactly the ones a
+ * preset enables, the result uses that preset.
+ *
+ * @param config - The lint-staged configuration to migrate
+ * @returns The migrated options and a record of what was mapped
+ *
+ * @example
+ * ```typescript
+ * import { migrateConfig } from '@savvy-web/lint-staged';
+ *
+ * const result = migrateConfig({
+ *   '*.{js,ts,json}': 'biome check --write',
+ *   '*.css': 'stylelint --fix',
+ * });
+ * // result.options.biome: {}
+ * // result.options.custom: { '*.css': 'stylelint --fix' }
+ * ```
+ */
+export function migrateConfig(config: LintStagedConfig): MigrationResult {
+	const handlers = new Map<HandlerKey, object>();
+	const custom: LintStagedConfig = {};
+	const migrated: MigratedEntry[] = [];
+	const preserved: string[] = [];
+
+	for (const [glob, entry] of Object.entries(config)) {
+		const commands = staticCommands(entry);
+		const result = commands === null ? null : migrateEntry(glob, commands);
+
+		// A handler is only created once; a second matching glob stays custom
+		if (result === null || handlers.has(result.handler)) {
+			custom[glob] = entry;
+			preserved.push(glob);
+			continue;
+		}
+
+		handlers.set(result.handler, result.options);
+		migrated.push({ glob, handler: result.handler });
+	}
+
+	const preset =
+		(Object.keys(PRESET_HANDLERS) as PresetType[]).find(
+			(name) =>
+				PRESET_HANDLERS[name].length === handlers.size && PRESET_HANDLERS[name].every((key) => handlers.has(key)),
+		) ?? null;
+
+	const options: CreateConfigOptions = {};
+	for (const key of HANDLER_KEYS) {
+		const handlerOptions = handlers.get(key);
+		if (preset === null) {
+			Object.assign(options, { [key]: handlerOptions ?? false });
+		} else if (handlerOptions !== undefined && Object.keys(handlerOptions).length > 0) {
+			Object.assign(options, { [key]: handlerOptions });
+		}
+	}
+	if (preserved.length > 0) {
+		options.custom = custom;
+	}
+
+	return { preset, options, migrated, preserved };
+}
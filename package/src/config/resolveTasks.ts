@@ -0,0 +1,91 @@
+/**
+ * Resolve a lint-staged configuration into the commands it would run.
+ */
+
+import { relative, resolve } from "node:path";
+import picomatch from "picomatch";
+import type { LintStagedConfig, LintStagedEntry } from "../types.js";
+import { Filter } from "../utils/Filter.js";
+
+/**
+ * The commands one config glob produces for a set of files.
+ */
+export interface LintStagedTask {
+	/** The glob key from the configuration */
+	glob: string;
+	/** Absolute paths of the files matched by the glob */
+	files: string[];
+	/** Sequential steps; each step lists the commands it returned */
+	steps: string[][];
+}
+
+/**
+ * Match files against a lint-staged glob.
+ *
+ * @remarks
+ * Follows lint-staged's matching rules: dotfiles are matched, paths are
+ * relative to `cwd`, and a glob without a `/` matches the basename at any
+ * depth.
+ *
+ * @param glob - The glob key from the configuration
+ * @param files - File paths, absolute or relative to `cwd`
+ * @param cwd - Directory globs are relative to
+ * @returns Absolute paths of the matching files, in input order
+ */
+export function matchGlob(glob: string, files: readonly string[], cwd: string = process.cwd()): string[] {
+	const isMatch = picomatch(glob, { dot: true, basename: !glob.includes("/") });
+	return files.map((file) => resolve(cwd, file)).filter((file) => isMatch(relative(cwd, file)));
+}
+
+/**
+ * Resolve one config entry into the commands it runs.
+ *
+ * @param entry - A handler function, command string, or list of commands
+ * @param files - Files matched by the entry's glob
+ * @returns Commands to run; strings get the file list appended like lint-staged does
+ */
+async function resolveEntry(entry: LintStagedEntry, files: string[]): Promise<string[]> {
+	if (typeof entry === "function") {
+		const result = await entry(files);
+		return (Array.isArray(result) ? result : [result]).filter((command) => command.length > 0);
+	}
+
+	const commands = typeof entry === "string" ? [entry] : entry;
+	return commands.map((command) => `${command} ${Filter.shellEscape(files)}`);
+}
+
+/**
+ * Resolve a configuration against a file list.
+ *
+ * @remarks
+ * Handler functions are called with the matched files, exactly as
+ * lint-staged would call them, so handlers that format files in their body
+ * do so here too. Globs that match no files are omitted.
+ *
+ * @param config - The lint-staged configuration
+ * @param files - File paths, absolute or relative to `cwd`
+ * @param cwd - Directory globs are relative to
+ * @returns One task per glob that matched at least one file
+ */
+export async function resolveTasks(
+	config: LintStagedConfig,
+	files: readonly string[],
+	cwd: string = process.cwd(),
+): Promise<LintStagedTask[]> {
+	const tasks: LintStagedTask[] = [];
+
+	for (const [glob, value] of Object.entries(config)) {
+		const matched = matchGlob(glob, files, cwd);
+		if (matched.length === 0) continue;
+
+		const entries: LintStagedEntry[] = Array.isArray(value) ? value : [value];
+		const steps: string[][] = [];
+		for (const entry of entries) {
+			steps.push(await resolveEntry(entry, matched));
+		}
+
+		tasks.push({ glob, files: matched, steps });
+	}
+
+	return tasks;
+}
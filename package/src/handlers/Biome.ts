@@ -4,9 +4,11 @@
  * Formats and lints with Biome.
  */
 
-import { existsSync } from "node:fs";
+import { spawnSync } from "node:child_process";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
-import type { BiomeOptions, LintStagedHandler } from "../types.js";
+import { Handler } from "../Handler.js";
+import type { BiomeOptions, LintStagedHandler, ShebangInterpreter } from "../types.js";
 import { Command } from "../utils/Command.js";
 import { Filter } from "../utils/Filter.js";
 import { getWorkspacePackagePaths, getWorkspaceRoot } from "../utils/Workspace.js";
@@ -58,6 +60,11 @@ export class Biome {
 	 */
 	static readonly defaultExcludes = ["package.json", "package-lock.json", "__fixtures__", "__test__/fixtures"] as const;
 
+	/**
+	 * Shebang interpreters of extensionless scripts handled by {@link Biome.scriptCommand}.
+	 */
+	static readonly shebangInterpreters: readonly ShebangInterpreter[] = ["node", "tsx"];
+
 	/** Candidate config file names in preference order. */
 	private static readonly CONFIG_NAMES = ["biome.jsonc", "biome.json"] as const;
 
@@ -180,7 +187,9 @@ export class Biome {
 		const config = options.config ?? Biome.findConfig();
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = Filter.exclude(filenames, excludes);
+			if (Handler.isSkipped("biome")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode);
 
 			if (filtered.length === 0) {
 				return [];
@@ -192,15 +201,91 @@ export class Biome {
 				"Biome is not available. Install it globally (recommended) or add @biomejs/biome as a dev dependency.",
 			);
 
-			const files = Filter.shellEscape(filtered);
 			const flags = options.flags ?? [];
 			const configFlag = config ? `--config-path=${config}` : "";
 
-			const cmd = [`${biomeCmd} check --write --no-errors-on-unmatched`, configFlag, ...flags, files]
-				.filter(Boolean)
-				.join(" ");
+			return Filter.chunkCommand(
+				filtered,
+				(files) =>
+					[`${biomeCmd} check --write --no-errors-on-unmatched`, configFlag, ...flags, files].filter(Boolean).join(" "),
+				options,
+			);
+		};
+	}
+
+	/**
+	 * Format an extensionless Node.js script in-place with Biome.
+	 *
+	 * @remarks
+	 * Biome skips files without a known extension, so the script is piped
+	 * through `biome check --write --stdin-file-path`, as a `.ts` file for a
+	 * `tsx` shebang and a `.js` file otherwise. This applies formatting and
+	 * safe fixes; Biome reports no other lint diagnostics in this mode.
+	 *
+	 * @param filepath - Path to the script
+	 * @param config - Biome config file, or undefined for Biome's own discovery
+	 * @throws Error if Biome is not available or fails, e.g. on a parse error
+	 */
+	static formatScript(filepath: string, config?: string): void {
+		const biomeCmd = Command.requireTool(
+			"biome",
+			"Biome is not available. Install it globally (recommended) or add @biomejs/biome as a dev dependency.",
+		);
+
+		const extension = Filter.shebang(filepath) === "tsx" ? ".ts" : ".js";
+		const configFlag = config ? `--config-path=${Filter.shellEscape([config])}` : "";
+		const command = [
+			`${biomeCmd} check --write`,
+			configFlag,
+			`--stdin-file-path=${Filter.shellEscape([`${filepath}${extension}`])}`,
+		]
+			.filter(Boolean)
+			.join(" ");
+
+		const content = readFileSync(filepath, "utf-8");
+		const result = spawnSync(command, { shell: true, input: content, encoding: "utf-8" });
+		if (result.error) {
+			throw result.error;
+		}
+		if (result.status !== 0) {
+			throw new Error(`Biome failed on ${filepath}:\n${(result.stderr || result.stdout).trim()}`);
+		}
+		if (result.stdout !== "" && result.stdout !== content) {
+			writeFileSync(filepath, result.stdout, "utf-8");
+		}
+	}
+
+	/**
+	 * Create a handler that formats extensionless Node.js scripts with Biome.
+	 *
+	 * @remarks
+	 * Keeps files whose shebang names one of {@link Biome.shebangInterpreters}
+	 * and returns a `savvy-lint fmt script` command, which runs
+	 * {@link Biome.formatScript} on each, so lint-staged can detect the
+	 * modification and auto-stage it.
+	 *
+	 * @param options - Configuration options
+	 * @returns A lint-staged compatible handler function
+	 */
+	static scriptCommand(options: BiomeOptions = {}): LintStagedHandler {
+		const excludes = options.exclude ?? [...Biome.defaultExcludes];
+		const config = options.config ?? Biome.findConfig();
+
+		return (filenames: readonly string[]): string | string[] => {
+			if (Handler.isSkipped("biome")) return [];
+
+			const filtered = Filter.byShebang(
+				Filter.exclude(filenames, excludes, options.patternMode),
+				Biome.shebangInterpreters,
+			);
+
+			if (filtered.length === 0) {
+				return [];
+			}
 
-			return cmd;
+			const cmd = Command.findSavvyLint();
+			const configFlag = config ? ` --config-path ${Filter.shellEscape([config])}` : "";
+			return Filter.chunkCommand(filtered, (files) => `${cmd} fmt script${configFlag} ${files}`, options);
 		};
 	}
 }
@@ -6,6 +6,7 @@
 
 import { existsSync } from "node:fs";
 import { join } from "node:path";
+import { Handler } from "../Handler.js";
 import type { LintStagedHandler, MarkdownOptions } from "../types.js";
 import { Command } from "../utils/Command.js";
 import { Filter } from "../utils/Filter.js";
@@ -135,7 +136,9 @@ export class Markdown {
 		const config = options.config ?? Markdown.findConfig();
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = Filter.exclude(filenames, excludes);
+			if (Handler.isSkipped("markdown")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode);
 
 			if (filtered.length === 0) {
 				return [];
@@ -147,13 +150,14 @@ export class Markdown {
 				"markdownlint-cli2 is not available. Install it globally or add it as a dev dependency.",
 			);
 
-			const files = Filter.shellEscape(filtered);
 			const fixFlag = noFix ? "" : "--fix";
 			const configFlag = config ? `--config '${config}'` : "";
 
-			const cmd = [mdlintCmd, configFlag, fixFlag, files].filter(Boolean).join(" ");
-
-			return cmd;
+			return Filter.chunkCommand(
+				filtered,
+				(files) => [mdlintCmd, configFlag, fixFlag, files].filter(Boolean).join(" "),
+				options,
+			);
 		};
 	}
 }
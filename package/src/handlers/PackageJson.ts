@@ -6,7 +6,8 @@
 
 import { readFileSync, writeFileSync } from "node:fs";
 import sortPackageJson from "sort-package-json";
-import type { LintStagedHandler, PackageJsonOptions } from "../types.js";
+import { Handler } from "../Handler.js";
+import type { LintStagedHandler, PackageJsonOptions, PatternMode } from "../types.js";
 import { Command } from "../utils/Command.js";
 import { Filter } from "../utils/Filter.js";
 import { isWorkspacePackagePath } from "../utils/Workspace.js";
@@ -61,10 +62,15 @@ export class PackageJson {
 	 *
 	 * @param filenames - Incoming file list from lint-staged
 	 * @param excludes - Patterns to exclude before workspace filtering
+	 * @param mode - How exclude patterns are interpreted
 	 * @returns Filtered list of files at workspace roots
 	 */
-	private static filterToWorkspaceRoots(filenames: readonly string[], excludes: readonly string[]): string[] {
-		const excluded = Filter.exclude(filenames, [...excludes]);
+	private static filterToWorkspaceRoots(
+		filenames: readonly string[],
+		excludes: readonly string[],
+		mode?: PatternMode,
+	): string[] {
+		const excluded = Filter.exclude(filenames, [...excludes], mode);
 		return excluded.filter((f) => isWorkspacePackagePath(f));
 	}
 
@@ -90,14 +96,16 @@ export class PackageJson {
 		const excludes = options.exclude ?? [...PackageJson.defaultExcludes];
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = PackageJson.filterToWorkspaceRoots(filenames, excludes);
+			if (Handler.isSkipped("packageJson")) return [];
+
+			const filtered = PackageJson.filterToWorkspaceRoots(filenames, excludes, options.patternMode);
 
 			if (filtered.length === 0) {
 				return [];
 			}
 
 			const cmd = Command.findSavvyLint();
-			return `${cmd} fmt package-json ${Filter.shellEscape(filtered)}`;
+			return Filter.chunkCommand(filtered, (files) => `${cmd} fmt package-json ${files}`, options);
 		};
 	}
 
@@ -113,7 +121,9 @@ export class PackageJson {
 		const skipFormat = options.skipFormat ?? false;
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = PackageJson.filterToWorkspaceRoots(filenames, excludes);
+			if (Handler.isSkipped("packageJson")) return [];
+
+			const filtered = PackageJson.filterToWorkspaceRoots(filenames, excludes, options.patternMode);
 
 			if (filtered.length === 0) {
 				return [];
@@ -136,12 +146,12 @@ export class PackageJson {
 			}
 
 			// Build Biome formatting command with properly escaped file paths
-			const files = Filter.shellEscape(filtered);
-			const biomeCmd = options.biomeConfig
-				? `biome check --write --max-diagnostics=none --config-path=${options.biomeConfig} ${files}`
-				: `biome check --write --max-diagnostics=none ${files}`;
-
-			return biomeCmd;
+			const configFlag = options.biomeConfig ? ` --config-path=${options.biomeConfig}` : "";
+			return Filter.chunkCommand(
+				filtered,
+				(files) => `biome check --write --max-diagnostics=none${configFlag} ${files}`,
+				options,
+			);
 		};
 	}
 }
@@ -5,9 +5,13 @@
  */
 
 import { existsSync, readFileSync, writeFileSync } from "node:fs";
-import { parse, stringify } from "yaml";
+import { join, relative } from "node:path";
+import type { Document, Node, YAMLMap, YAMLSeq } from "yaml";
+import { isMap, isNode, isPair, isScalar, isSeq, parse, parseDocument } from "yaml";
+import { Handler } from "../Handler.js";
 import type { LintStagedHandler, PnpmWorkspaceOptions } from "../types.js";
 import { Command } from "../utils/Command.js";
+import { getWorkspacePackagePaths, getWorkspaceRoot } from "../utils/Workspace.js";
 
 /**
  * Shape of pnpm-workspace.yaml content.
@@ -16,9 +20,54 @@ export interface PnpmWorkspaceContent {
 	packages?: string[];
 	onlyBuiltDependencies?: string[];
 	publicHoistPattern?: string[];
+	catalog?: Record<string, string>;
+	catalogs?: Record<string, Record<string, string>>;
+	overrides?: Record<string, string>;
+	patchedDependencies?: Record<string, string>;
+	peerDependencyRules?: {
+		allowAny?: string[];
+		allowedVersions?: Record<string, string>;
+		ignoreMissing?: string[];
+		[key: string]: unknown;
+	};
 	[key: string]: unknown;
 }
 
+/**
+ * A catalog entry, identified by catalog name and dependency name.
+ *
+ * @remarks
+ * The top-level `catalog` map and `catalogs.default` are both reported
+ * under the catalog name `default`.
+ */
+export interface CatalogEntry {
+	/** Catalog name (`default` for the top-level `catalog` map) */
+	readonly catalog: string;
+	/** Dependency name within the catalog */
+	readonly name: string;
+}
+
+/**
+ * A `catalog:` reference in a package.json file.
+ */
+export interface CatalogReference extends CatalogEntry {
+	/** Path of the package.json containing the reference */
+	readonly file: string;
+}
+
+/**
+ * Result of cross-checking workspace catalogs against package.json files.
+ */
+export interface CatalogIssues {
+	/** Catalog entries that no workspace package.json references */
+	readonly unused: CatalogEntry[];
+	/** `catalog:` references that point at entries missing from the workspace file */
+	readonly missing: CatalogReference[];
+}
+
+/** package.json fields that may contain `catalog:` specifiers. */
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const;
+
 /**
  * Default YAML stringify options for consistent formatting.
  */
@@ -28,6 +77,120 @@ const DEFAULT_STRINGIFY_OPTIONS = {
 	singleQuote: false,
 } as const;
 
+/**
+ * Compare top-level keys alphabetically, keeping `packages` first.
+ *
+ * @param a - First key
+ * @param b - Second key
+ * @returns Sort order
+ */
+function compareKeys(a: string, b: string): number {
+	if (a === "packages") return -1;
+	if (b === "packages") return 1;
+	return a.localeCompare(b);
+}
+
+/**
+ * Compare array values by UTF-16 code units, matching `Array.prototype.sort()`.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Sort order
+ */
+function compareValues(a: string, b: string): number {
+	if (a < b) return -1;
+	if (a > b) return 1;
+	return 0;
+}
+
+/**
+ * Check whether a value is a plain (non-array) object.
+ *
+ * @param value - Value to check
+ * @returns `true` for plain objects
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Return a copy of an object with its keys sorted.
+ *
+ * @param value - Object to sort
+ * @param mapValue - Optional transform applied to each value
+ * @returns A new object with keys in sorted order
+ */
+function sortRecord(
+	value: Record<string, unknown>,
+	mapValue: (key: string, item: unknown) => unknown = (_key, item) => item,
+): Record<string, unknown> {
+	const keys = Object.keys(value).sort(compareValues);
+	return Object.fromEntries(keys.map((key) => [key, mapValue(key, value[key])]));
+}
+
+/**
+ * Get the node that carries an item's leading comment and blank line.
+ *
+ * @param item - A map pair or sequence item
+ * @returns The pair's key node, the item itself, or undefined for non-nodes
+ */
+function leadingNode(item: unknown): Node | undefined {
+	const node = isPair(item) ? item.key : item;
+	return isNode(node) ? node : undefined;
+}
+
+/**
+ * Get the sort key of a YAML collection item.
+ *
+ * @param item - A map pair or sequence item
+ * @returns The string used for ordering
+ */
+function sortKeyOf(item: unknown): string {
+	const node = isPair(item) ? item.key : item;
+	return isScalar(node) ? String(node.value) : String(node);
+}
+
+/**
+ * Sort the items of a YAML map or sequence in place.
+ *
+ * @remarks
+ * Comments and blank lines are stored on the nodes themselves, so they
+ * travel with their items. Two cases need help: a comment above the first
+ * item is stored on the collection, so it is moved onto that item before
+ * reordering, and the blank-line flags of the old and new first items are
+ * swapped so the collection never opens with an empty line.
+ *
+ * @param collection - The map or sequence to sort
+ * @param compare - Comparator for the item sort keys
+ * @returns `true` if the order changed
+ */
+function sortCollection(collection: YAMLMap | YAMLSeq, compare: (a: string, b: string) => number): boolean {
+	const items = collection.items as unknown[];
+	const sorted = [...items].sort((a, b) => compare(sortKeyOf(a), sortKeyOf(b)));
+	if (sorted.every((item, index) => item === items[index])) {
+		return false;
+	}
+
+	const oldFirst = leadingNode(items[0]);
+	const newFirst = leadingNode(sorted[0]);
+
+	if (oldFirst && collection.commentBefore) {
+		oldFirst.commentBefore = oldFirst.commentBefore
+			? `${collection.commentBefore}\n${oldFirst.commentBefore}`
+			: collection.commentBefore;
+		collection.commentBefore = null;
+	}
+
+	if (oldFirst && newFirst) {
+		const spaceBefore = newFirst.spaceBefore ?? false;
+		newFirst.spaceBefore = oldFirst.spaceBefore ?? false;
+		oldFirst.spaceBefore = spaceBefore;
+	}
+
+	items.splice(0, items.length, ...sorted);
+	return true;
+}
+
 /**
  * Handler for pnpm-workspace.yaml.
  *
@@ -37,9 +200,17 @@ const DEFAULT_STRINGIFY_OPTIONS = {
  * This handler processes the workspace file entirely in JavaScript:
  * - Sorts the `packages` array alphabetically (if present)
  * - Sorts `onlyBuiltDependencies` and `publicHoistPattern` arrays (if present)
+ * - Sorts `catalog`, `catalogs`, `overrides`, `patchedDependencies` and
+ *   `peerDependencyRules` maps by key (if present)
  * - Sorts all top-level keys alphabetically, keeping `packages` first
  * - Formats the output with consistent YAML styling
  * - Validates the YAML structure
+ * - Warns about unused catalog entries and fails on `catalog:` references
+ *   to entries that do not exist
+ *
+ * Sorting operates on the parsed YAML document rather than plain objects,
+ * so comments and blank lines stay attached to the keys and entries they
+ * describe. An already-sorted file is left byte-for-byte unchanged.
  *
  * @example
  * ```typescript
@@ -76,6 +247,35 @@ export class PnpmWorkspace {
 	 */
 	private static readonly SORTABLE_ARRAY_KEYS = new Set(["packages", "onlyBuiltDependencies", "publicHoistPattern"]);
 
+	/**
+	 * Keys whose map values should be sorted by key.
+	 */
+	private static readonly SORTABLE_MAP_KEYS = new Set([
+		"catalog",
+		"catalogs",
+		"overrides",
+		"patchedDependencies",
+		"peerDependencyRules",
+	]);
+
+	/**
+	 * `peerDependencyRules` keys whose array values should be sorted alphabetically.
+	 */
+	private static readonly PEER_RULE_ARRAY_KEYS = new Set(["allowAny", "ignoreMissing"]);
+
+	/**
+	 * Check whether a collection nested under a sortable map should be sorted too.
+	 *
+	 * @param key - Top-level key (e.g. `catalogs`)
+	 * @param childKey - Key within the top-level map (e.g. a catalog name)
+	 * @returns `true` for named catalogs and the collections of `peerDependencyRules`
+	 */
+	private static sortsNested(key: string, childKey: string): boolean {
+		if (key === "catalogs") return true;
+		if (key !== "peerDependencyRules") return false;
+		return childKey === "allowedVersions" || PnpmWorkspace.PEER_RULE_ARRAY_KEYS.has(childKey);
+	}
+
 	/**
 	 * Sort the pnpm-workspace.yaml content.
 	 *
@@ -83,6 +283,10 @@ export class PnpmWorkspace {
 	 * - `packages` array alphabetically
 	 * - `onlyBuiltDependencies` array (if present)
 	 * - `publicHoistPattern` array (if present)
+	 * - `catalog`, `overrides` and `patchedDependencies` maps by key (if present)
+	 * - `catalogs` by catalog name, and the entries of each named catalog by key
+	 * - `peerDependencyRules` by key, including its `allowedVersions` map and
+	 *   `allowAny`/`ignoreMissing` arrays
 	 * - All keys alphabetically, keeping `packages` first
 	 *
 	 * @param content - Parsed pnpm-workspace.yaml content
@@ -92,18 +296,22 @@ export class PnpmWorkspace {
 		const result: PnpmWorkspaceContent = {};
 
 		// Get all keys and sort them, but keep 'packages' first
-		const keys = Object.keys(content).sort((a, b) => {
-			if (a === "packages") return -1;
-			if (b === "packages") return 1;
-			return a.localeCompare(b);
-		});
+		const keys = Object.keys(content).sort(compareKeys);
 
 		for (const key of keys) {
 			const value = content[key];
 
-			// Sort array values for known sortable keys
 			if (PnpmWorkspace.SORTABLE_ARRAY_KEYS.has(key) && Array.isArray(value)) {
+				// Sort array values for known sortable keys
 				result[key] = [...value].sort();
+			} else if (PnpmWorkspace.SORTABLE_MAP_KEYS.has(key) && isRecord(value)) {
+				// Sort map values by key, plus the nested collections of catalogs and peerDependencyRules
+				result[key] = sortRecord(value, (childKey, child) => {
+					if (!PnpmWorkspace.sortsNested(key, childKey)) return child;
+					if (isRecord(child)) return sortRecord(child);
+					if (Array.isArray(child)) return [...child].sort();
+					return child;
+				});
 			} else {
 				result[key] = value;
 			}
@@ -112,6 +320,187 @@ export class PnpmWorkspace {
 		return result;
 	}
 
+	/**
+	 * Sort a parsed pnpm-workspace.yaml document in place.
+	 *
+	 * @remarks
+	 * Applies the same ordering as {@link PnpmWorkspace.sortContent}, but
+	 * reorders the document's nodes instead of rebuilding the data, so
+	 * comments and blank-line grouping are preserved.
+	 *
+	 * @param doc - Document from `yaml`'s `parseDocument()`
+	 * @returns `true` if any keys or array entries were reordered
+	 */
+	static sortDocument(doc: Document): boolean {
+		const root = doc.contents;
+		if (!isMap(root)) {
+			return false;
+		}
+
+		let changed = sortCollection(root, compareKeys);
+
+		for (const pair of root.items) {
+			const key = sortKeyOf(pair);
+
+			if (PnpmWorkspace.SORTABLE_ARRAY_KEYS.has(key) && isSeq(pair.value)) {
+				changed = sortCollection(pair.value, compareValues) || changed;
+			} else if (PnpmWorkspace.SORTABLE_MAP_KEYS.has(key) && isMap(pair.value)) {
+				changed = sortCollection(pair.value, compareValues) || changed;
+
+				for (const child of pair.value.items) {
+					const nested = child.value;
+					if (PnpmWorkspace.sortsNested(key, sortKeyOf(child)) && (isMap(nested) || isSeq(nested))) {
+						changed = sortCollection(nested, compareValues) || changed;
+					}
+				}
+			}
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Find the package.json files of the workspace.
+	 *
+	 * @remarks
+	 * Returns the workspace root manifest plus one per leaf workspace package.
+	 * Falls back to `package.json` in CWD when not running inside a workspace.
+	 *
+	 * @returns Paths of existing package.json files
+	 */
+	static findManifests(): string[] {
+		const root = getWorkspaceRoot() ?? process.cwd();
+		const dirs = [root, ...getWorkspacePackagePaths()];
+		return dirs.map((dir) => join(dir, "package.json")).filter((path) => existsSync(path));
+	}
+
+	/**
+	 * Cross-check workspace catalogs against `catalog:` references.
+	 *
+	 * @remarks
+	 * Reports catalog entries that no package.json references, and `catalog:`
+	 * references whose entry is missing from the workspace file. Catalogs can
+	 * also be injected by config dependency plugins, so when the file declares
+	 * `configDependencies`, references to catalogs it does not define at all
+	 * are not reported as missing.
+	 *
+	 * @param content - Parsed pnpm-workspace.yaml content
+	 * @param manifests - package.json paths to scan (defaults to {@link PnpmWorkspace.findManifests})
+	 * @returns Unused catalog entries and missing references
+	 */
+	static findCatalogIssues(
+		content: PnpmWorkspaceContent,
+		manifests: readonly string[] = PnpmWorkspace.findManifests(),
+	): CatalogIssues {
+		// Collect defined entries, keyed by catalog name
+		const defined = new Map<string, Set<string>>();
+		const addCatalog = (catalog: string, entries: unknown): void => {
+			if (!isRecord(entries)) return;
+			const names = defined.get(catalog) ?? new Set<string>();
+			for (const name of Object.keys(entries)) names.add(name);
+			defined.set(catalog, names);
+		};
+		addCatalog("default", content.catalog);
+		if (isRecord(content.catalogs)) {
+			for (const [catalog, entries] of Object.entries(content.catalogs)) {
+				addCatalog(catalog, entries);
+			}
+		}
+
+		// Collect catalog: references from package.json files
+		const references: CatalogReference[] = [];
+		for (const file of manifests) {
+			let pkg: Record<string, unknown>;
+			try {
+				pkg = JSON.parse(readFileSync(file, "utf-8")) as Record<string, unknown>;
+			} catch {
+				continue;
+			}
+
+			for (const field of DEPENDENCY_FIELDS) {
+				const deps = pkg[field];
+				if (!isRecord(deps)) continue;
+
+				for (const [name, specifier] of Object.entries(deps)) {
+					if (typeof specifier !== "string" || !specifier.startsWith("catalog:")) continue;
+					const catalog = specifier.slice("catalog:".length).trim() || "default";
+					references.push({ file, catalog, name });
+				}
+			}
+		}
+
+		const referenced = new Set(references.map((ref) => `${ref.catalog}\0${ref.name}`));
+		const hasConfigDependencies = content.configDependencies !== undefined;
+
+		const unused: CatalogEntry[] = [];
+		for (const [catalog, names] of defined) {
+			for (const name of names) {
+				if (!referenced.has(`${catalog}\0${name}`)) {
+					unused.push({ catalog, name });
+				}
+			}
+		}
+
+		const missing = references.filter((ref) => {
+			const names = defined.get(ref.catalog);
+			if (names === undefined) return !hasConfigDependencies;
+			return !names.has(ref.name);
+		});
+
+		return { unused, missing };
+	}
+
+	/**
+	 * Report catalog issues found by {@link PnpmWorkspace.findCatalogIssues}.
+	 *
+	 * @remarks
+	 * Unused entries are printed as a warning. Missing entries would make
+	 * `pnpm install` fail, so they are thrown as an error.
+	 *
+	 * @param issues - Issues to report
+	 * @throws Error if any `catalog:` reference points at a missing entry
+	 */
+	static reportCatalogIssues(issues: CatalogIssues): void {
+		const cwd = process.cwd();
+
+		if (issues.unused.length > 0) {
+			const entries = issues.unused.map((entry) => `  ${entry.name} (catalog: ${entry.catalog})`);
+			console.warn(`Unused catalog entries in pnpm-workspace.yaml:\n${entries.join("\n")}`);
+		}
+
+		if (issues.missing.length > 0) {
+			const refs = issues.missing.map(
+				(ref) => `  ${relative(cwd, ref.file) || ref.file}: ${ref.name} (catalog: ${ref.catalog})`,
+			);
+			throw new Error(`Missing catalog entries in pnpm-workspace.yaml:\n${refs.join("\n")}`);
+		}
+	}
+
+	/**
+	 * Sort and format pnpm-workspace.yaml source text.
+	 *
+	 * @remarks
+	 * When sorting is enabled and the document is already sorted, the
+	 * original text is returned unchanged.
+	 *
+	 * @param content - Raw pnpm-workspace.yaml content
+	 * @param options - Set `skipSort` to only normalize formatting
+	 * @returns The sorted and formatted content
+	 * @throws YAMLParseError if the content is not valid YAML
+	 */
+	static formatContent(content: string, options: Pick<PnpmWorkspaceOptions, "skipSort"> = {}): string {
+		const doc = parseDocument(content);
+		if (doc.errors.length > 0) {
+			throw doc.errors[0];
+		}
+
+		if (options.skipSort) {
+			return doc.toString(DEFAULT_STRINGIFY_OPTIONS);
+		}
+
+		return PnpmWorkspace.sortDocument(doc) ? doc.toString(DEFAULT_STRINGIFY_OPTIONS) : content;
+	}
+
 	/**
 	 * Create a handler that returns a CLI command to sort/format pnpm-workspace.yaml.
 	 *
@@ -121,15 +510,20 @@ export class PnpmWorkspace {
 	 * lint-staged can detect the modification and auto-stage it.
 	 * Use this in lint-staged array syntax for sequential execution.
 	 *
+	 * @param options - Configuration options (only `skipCatalogCheck` applies)
 	 * @returns A lint-staged compatible handler function
 	 */
-	static fmtCommand(): LintStagedHandler {
+	static fmtCommand(options: Pick<PnpmWorkspaceOptions, "skipCatalogCheck"> = {}): LintStagedHandler {
+		const skipCatalogCheck = options.skipCatalogCheck ?? false;
+
 		return (): string | string[] => {
+			if (Handler.isSkipped("pnpmWorkspace")) return [];
+
 			if (!existsSync("pnpm-workspace.yaml")) {
 				return [];
 			}
 			const cmd = Command.findSavvyLint();
-			return `${cmd} fmt pnpm-workspace`;
+			return skipCatalogCheck ? `${cmd} fmt pnpm-workspace --skip-catalog-check` : `${cmd} fmt pnpm-workspace`;
 		};
 	}
 
@@ -143,8 +537,11 @@ export class PnpmWorkspace {
 		const skipSort = options.skipSort ?? false;
 		const skipFormat = options.skipFormat ?? false;
 		const skipLint = options.skipLint ?? false;
+		const skipCatalogCheck = options.skipCatalogCheck ?? false;
 
 		return (): string | string[] => {
+			if (Handler.isSkipped("pnpmWorkspace")) return [];
+
 			const filepath = "pnpm-workspace.yaml";
 
 			// If the file doesn't exist, nothing to do
@@ -152,12 +549,12 @@ export class PnpmWorkspace {
 				return [];
 			}
 
-			// Read and parse the file
+			// Read, parse, and sort the file
 			const content = readFileSync(filepath, "utf-8");
-			let parsed: PnpmWorkspaceContent;
+			let formatted: string;
 
 			try {
-				parsed = parse(content) as PnpmWorkspaceContent;
+				formatted = PnpmWorkspace.formatContent(content, { skipSort });
 			} catch (error) {
 				if (!skipLint) {
 					throw new Error(`Invalid YAML in ${filepath}: ${error instanceof Error ? error.message : String(error)}`);
@@ -166,17 +563,15 @@ export class PnpmWorkspace {
 				return [];
 			}
 
-			// Sort if not skipped
-			if (!skipSort) {
-				parsed = PnpmWorkspace.sortContent(parsed);
-			}
-
-			// Format and write back (unless both sort and format are skipped)
-			if (!skipSort || !skipFormat) {
-				const formatted = stringify(parsed, DEFAULT_STRINGIFY_OPTIONS);
+			// Write back (unless both sort and format are skipped, or nothing changed)
+			if ((!skipSort || !skipFormat) && formatted !== content) {
 				writeFileSync(filepath, formatted, "utf-8");
+			}
 
-				return [];
+			// Cross-check catalogs against package.json references
+			if (!skipCatalogCheck) {
+				const parsed = (parse(formatted) ?? {}) as PnpmWorkspaceContent;
+				PnpmWorkspace.reportCatalogIssues(PnpmWorkspace.findCatalogIssues(parsed));
 			}
 
 			return [];
@@ -1,20 +1,44 @@
 /**
  * Handler for shell script files.
  *
- * Manages executable permissions on shell scripts.
+ * Formats shell scripts with shfmt, manages their executable permissions
+ * and lints them with ShellCheck.
  */
 
-import type { LintStagedHandler, ShellScriptsOptions } from "../types.js";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import picomatch from "picomatch";
+import { Handler } from "../Handler.js";
+import type { LintStagedHandler, ShebangInterpreter, ShellScriptsOptions } from "../types.js";
+import { Command } from "../utils/Command.js";
 import { Filter } from "../utils/Filter.js";
+import { getWorkspaceRoot } from "../utils/Workspace.js";
 
 /**
  * Handler for shell script files.
  *
- * Removes executable bit by default (security best practice).
+ * Removes executable bit by default (security best practice). With
+ * `shellcheck: true`, also lints the scripts with ShellCheck. Formatting
+ * with shfmt is a separate step, {@link ShellScripts.fmtCommand}, which
+ * `createConfig` runs first.
  *
  * @remarks
  * By default, excludes `.claude/scripts/` which need to remain executable
- * for lint-staged hooks to work.
+ * for lint-staged hooks to work. Use `executable` to keep scripts in some
+ * directories executable, and `updateIndex` to record the modes in the git
+ * index, which `chmod` alone doesn't reach once `core.fileMode` is false.
+ *
+ * Besides `*.sh` files, the handler accepts extensionless files with an
+ * `sh`, `bash` or `zsh` shebang ({@link ShellScripts.shebangGlob}). These
+ * are commands, so their mode is left alone unless `makeExecutable` or
+ * `executable` makes them executable.
+ *
+ * ShellCheck discovery order:
+ * 1. Global `shellcheck` command (preferred)
+ * 2. Local installation via the package manager (e.g. `shellcheck` npm package)
+ *
+ * When ShellCheck is not found, a warning is printed and only the executable
+ * bit is managed.
  *
  * @example
  * ```typescript
@@ -23,6 +47,9 @@ import { Filter } from "../utils/Filter.js";
  * export default {
  *   [ShellScripts.glob]: ShellScripts.create({
  *     exclude: ['.claude/scripts/', 'bin/'],
+ *     shellcheck: true,
+ *     shellcheckSeverity: 'warning',
+ *     shellcheckExclude: ['SC1091'],
  *   }),
  * };
  * ```
@@ -41,11 +68,218 @@ export class ShellScripts {
 	 */
 	static readonly defaultExcludes = [".claude/scripts/"] as const;
 
+	/**
+	 * Glob pattern for extensionless files, handled when they start with a
+	 * shell shebang (see {@link ShellScripts.isShellScript}).
+	 * @defaultValue `'**\/!(*.*)'`
+	 */
+	static readonly shebangGlob = "**/!(*.*)";
+
+	/**
+	 * Glob pattern matching both `*.sh` and extensionless files, used for the
+	 * single entry that records modes in the git index
+	 * (see {@link ShellScripts.indexCommand}).
+	 * @defaultValue `'**\/{*.sh,!(*.*)}'`
+	 */
+	static readonly indexGlob = "**/{*.sh,!(*.*)}";
+
+	/**
+	 * Shebang interpreters handled as shell scripts.
+	 *
+	 * @remarks
+	 * shfmt and ShellCheck skip `zsh` scripts, which they don't support.
+	 */
+	static readonly shebangShells: readonly ShebangInterpreter[] = ["sh", "bash", "zsh"];
+
 	/**
 	 * Pre-configured handler with default options.
 	 */
 	static readonly handler: LintStagedHandler = ShellScripts.create();
 
+	/**
+	 * Find the shellcheck executable.
+	 *
+	 * @returns The command to run shellcheck, or undefined if not found
+	 */
+	static findShellcheck(): string | undefined {
+		return Command.findTool("shellcheck").command;
+	}
+
+	/**
+	 * Check if shellcheck is available.
+	 *
+	 * @returns `true` if shellcheck is available globally or locally
+	 */
+	static isAvailable(): boolean {
+		return Command.findTool("shellcheck").available;
+	}
+
+	/**
+	 * Check if a file is a shell script.
+	 *
+	 * @remarks
+	 * `*.sh` files always are. Other files are when {@link Filter.shebang}
+	 * classifies them as one of {@link ShellScripts.shebangShells}.
+	 *
+	 * @param file - File path, absolute or relative to the working directory
+	 * @returns True if the file is a shell script
+	 */
+	static isShellScript(file: string): boolean {
+		return file.endsWith(".sh") || Filter.byShebang([file], ShellScripts.shebangShells).length > 0;
+	}
+
+	/**
+	 * Find the shfmt executable.
+	 *
+	 * @returns The command to run shfmt, or undefined if not found
+	 */
+	static findShfmt(): string | undefined {
+		return Command.findTool("shfmt").command;
+	}
+
+	/**
+	 * Find the shell script indentation configured in `.editorconfig`.
+	 *
+	 * @remarks
+	 * Reads `.editorconfig` at the workspace root (or `process.cwd()` outside
+	 * a workspace). The last section matching a `.sh` file that sets
+	 * `indent_style` or `indent_size` wins, as in EditorConfig.
+	 *
+	 * @returns `0` for tabs, the number of spaces, or undefined if not configured
+	 */
+	static findIndent(): number | undefined {
+		const path = join(getWorkspaceRoot() ?? process.cwd(), ".editorconfig");
+		if (!existsSync(path)) return undefined;
+
+		let matches = false;
+		let style: string | undefined;
+		let size: string | undefined;
+		for (const rawLine of readFileSync(path, "utf-8").split(/\r?\n/)) {
+			const line = rawLine.trim();
+			if (line === "" || line.startsWith("#") || line.startsWith(";")) continue;
+
+			const section = line.match(/^\[(.+)\]$/);
+			if (section) {
+				const glob = section[1];
+				matches = picomatch(glob, { dot: true, basename: !glob.includes("/") })("script.sh");
+				continue;
+			}
+
+			const [key, value] = line.split("=").map((part) => part.trim().toLowerCase());
+			if (!matches || value === undefined) continue;
+			if (key === "indent_style") style = value;
+			if (key === "indent_size") size = value;
+		}
+
+		if (style === "tab" || size === "tab") return 0;
+		const spaces = Number(size);
+		return style === "space" && Number.isInteger(spaces) ? spaces : undefined;
+	}
+
+	/**
+	 * Create a handler that formats shell scripts with shfmt.
+	 *
+	 * @remarks
+	 * Returns a `shfmt -w` command so lint-staged can detect the modification
+	 * and auto-stage it. Use this in lint-staged array syntax before
+	 * {@link ShellScripts.create}. Returns no command when shfmt is not
+	 * installed.
+	 *
+	 * @param options - Configuration options
+	 * @returns A lint-staged compatible handler function
+	 */
+	static fmtCommand(options: ShellScriptsOptions = {}): LintStagedHandler {
+		const excludes = options.exclude ?? [...ShellScripts.defaultExcludes];
+		const indent = options.indent ?? ShellScripts.findIndent();
+		const indentFlag = indent === undefined ? "" : ` -i ${indent}`;
+
+		return (filenames: readonly string[]): string | string[] => {
+			if (Handler.isSkipped("shellScripts")) return [];
+
+			// shfmt doesn't support zsh
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode).filter(
+				(file) => ShellScripts.isShellScript(file) && Filter.shebang(file) !== "zsh",
+			);
+
+			if (filtered.length === 0) {
+				return [];
+			}
+
+			const shfmtCmd = ShellScripts.findShfmt();
+			if (shfmtCmd === undefined) {
+				return [];
+			}
+
+			return Filter.chunkCommand(filtered, (files) => `${shfmtCmd} -w${indentFlag} ${files}`, options);
+		};
+	}
+
+	/**
+	 * Build the ShellCheck flags for a set of options.
+	 *
+	 * @param options - Configuration options
+	 * @returns The flags, e.g. `['--severity=warning', '--exclude=SC1091']`
+	 */
+	static shellcheckFlags(options: ShellScriptsOptions = {}): string[] {
+		const flags: string[] = [];
+		if (options.shellcheckSeverity) flags.push(`--severity=${options.shellcheckSeverity}`);
+		if (options.shellcheckExclude && options.shellcheckExclude.length > 0) {
+			flags.push(`--exclude=${options.shellcheckExclude.join(",")}`);
+		}
+		if (options.shellcheckShell) flags.push(`--shell=${options.shellcheckShell}`);
+		return flags;
+	}
+
+	/**
+	 * Create a handler that only records the scripts' modes in the git index.
+	 *
+	 * @remarks
+	 * lint-staged runs the entries of a configuration concurrently, and two
+	 * `git update-index` processes running at once fail on `index.lock`.
+	 * `createConfig` therefore gives the chmod steps `updateIndex: false` and
+	 * records the modes of `*.sh` and extensionless scripts from this one step,
+	 * on {@link ShellScripts.indexGlob}.
+	 *
+	 * @param options - Configuration options, as passed to {@link ShellScripts.create}
+	 * @returns A lint-staged compatible handler function
+	 */
+	static indexCommand(options: ShellScriptsOptions = {}): LintStagedHandler {
+		const excludes = options.exclude ?? [...ShellScripts.defaultExcludes];
+
+		return (filenames: readonly string[]): string | string[] => {
+			if (Handler.isSkipped("shellScripts")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode).filter(ShellScripts.isShellScript);
+			return ShellScripts.indexCommands(filtered, options);
+		};
+	}
+
+	/**
+	 * The mode a script should have: `+x`, `-x`, or `null` to leave it alone.
+	 *
+	 * @remarks
+	 * Extensionless scripts are commands, so they are never made non-executable.
+	 */
+	private static modeOf(file: string, options: ShellScriptsOptions): "+x" | "-x" | null {
+		if (options.makeExecutable || Filter.matches(file, options.executable ?? [], options.patternMode)) return "+x";
+		return file.endsWith(".sh") ? "-x" : null;
+	}
+
+	/**
+	 * Build the `git update-index --chmod` commands for a set of scripts.
+	 */
+	private static indexCommands(files: readonly string[], options: ShellScriptsOptions): string[] {
+		const commands: string[] = [];
+		for (const flag of ["+x", "-x"] as const) {
+			const changed = files.filter((file) => ShellScripts.modeOf(file, options) === flag);
+			if (changed.length > 0) {
+				const update = `git update-index --chmod=${flag} --`;
+				commands.push(...[Filter.chunkCommand(changed, (escaped) => `${update} ${escaped}`, options)].flat());
+			}
+		}
+		return commands;
+	}
+
 	/**
 	 * Create a handler with custom options.
 	 *
@@ -54,19 +288,43 @@ export class ShellScripts {
 	 */
 	static create(options: ShellScriptsOptions = {}): LintStagedHandler {
 		const excludes = options.exclude ?? [...ShellScripts.defaultExcludes];
-		const makeExecutable = options.makeExecutable ?? false;
+		const shellcheck = options.shellcheck ?? false;
+		const flags = ShellScripts.shellcheckFlags(options);
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = Filter.exclude(filenames, excludes);
+			if (Handler.isSkipped("shellScripts")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode).filter(ShellScripts.isShellScript);
 
 			if (filtered.length === 0) {
 				return [];
 			}
 
-			const chmodFlag = makeExecutable ? "+x" : "-x";
+			// Return one command per file whose mode changes
+			const commands = filtered.flatMap((file) => {
+				const flag = ShellScripts.modeOf(file, options);
+				return flag === null ? [] : [`chmod ${flag} ${Filter.shellEscape([file])}`];
+			});
+
+			if (options.updateIndex) {
+				commands.push(...ShellScripts.indexCommands(filtered, options));
+			}
+
+			if (shellcheck) {
+				const shellcheckCmd = ShellScripts.findShellcheck();
+				if (shellcheckCmd === undefined) {
+					console.warn("shellcheck is not available, skipping shell script linting. Install it globally or locally.");
+				} else {
+					// ShellCheck doesn't support zsh
+					const linted = filtered.filter((file) => Filter.shebang(file) !== "zsh");
+					const cmd = [shellcheckCmd, ...flags].join(" ");
+					if (linted.length > 0) {
+						commands.push(...[Filter.chunkCommand(linted, (files) => `${cmd} ${files}`, options)].flat());
+					}
+				}
+			}
 
-			// Return one command per file
-			return filtered.map((file) => `chmod ${chmodFlag} ${file}`);
+			return commands;
 		};
 	}
 }
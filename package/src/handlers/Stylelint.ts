@@ -0,0 +1,168 @@
+/**
+ * Handler for CSS, SCSS and Less files.
+ *
+ * Lints and auto-fixes with Stylelint.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { Handler } from "../Handler.js";
+import type { LintStagedHandler, StylelintOptions } from "../types.js";
+import { Command } from "../utils/Command.js";
+import { Filter } from "../utils/Filter.js";
+import { getWorkspaceRoot } from "../utils/Workspace.js";
+
+/**
+ * Handler for CSS, SCSS and Less files.
+ *
+ * Lints and auto-fixes with Stylelint, for stylesheets Biome doesn't cover.
+ *
+ * Tool discovery order:
+ * 1. Global `stylelint` command (preferred)
+ * 2. Local installation via `pnpm exec stylelint`
+ * 3. Local installation via `npx stylelint`
+ *
+ * Config file discovery order:
+ * 1. Explicit `config` option if provided
+ * 2. `lib/configs/.stylelintrc.json` (and variants)
+ * 3. Standard locations (`.stylelintrc.json` at repo root, etc.)
+ *
+ * @throws Error if Stylelint is not available (globally or locally)
+ *
+ * @example
+ * ```typescript
+ * import { Stylelint } from '@savvy-web/lint-staged';
+ *
+ * export default {
+ *   // Auto-discovers command and config file
+ *   [Stylelint.glob]: Stylelint.handler,
+ *
+ *   // Or lint only, with an explicit config path
+ *   [Stylelint.glob]: Stylelint.create({
+ *     config: './config/stylelint.config.mjs',
+ *     noFix: true,
+ *   }),
+ * };
+ * ```
+ */
+// biome-ignore lint/complexity/noStaticOnlyClass: Intentional pattern for TSDoc discoverability
+export class Stylelint {
+	/**
+	 * Glob pattern for matching stylesheet files.
+	 * @defaultValue `'**\/*.{css,scss,less}'`
+	 */
+	static readonly glob = "**/*.{css,scss,less}";
+
+	/**
+	 * Default patterns to exclude from processing.
+	 * @defaultValue `[]`
+	 */
+	static readonly defaultExcludes = [] as const;
+
+	/**
+	 * Pre-configured handler with default options.
+	 * Auto-discovers command and config file location.
+	 */
+	static readonly handler: LintStagedHandler = Stylelint.create();
+
+	/**
+	 * Find the Stylelint executable.
+	 *
+	 * Searches in order:
+	 * 1. Global `stylelint` command
+	 * 2. `pnpm exec stylelint`
+	 * 3. `npx stylelint`
+	 *
+	 * @returns The command to run stylelint, or undefined if not found
+	 */
+	static findStylelint(): string | undefined {
+		const result = Command.findTool("stylelint");
+		return result.command;
+	}
+
+	/**
+	 * Check if Stylelint is available.
+	 *
+	 * @returns `true` if stylelint is available globally or locally
+	 */
+	static isAvailable(): boolean {
+		return Command.findTool("stylelint").available;
+	}
+
+	/**
+	 * Find the Stylelint config file.
+	 *
+	 * Paths are anchored to the workspace root (via {@link getWorkspaceRoot}),
+	 * falling back to `process.cwd()` when not inside a workspace.
+	 *
+	 * Searches in order:
+	 * 1. `{workspaceRoot}/lib/configs/` directory
+	 * 2. `{workspaceRoot}/` (repo root)
+	 *
+	 * @returns The config file path, or undefined if not found
+	 */
+	static findConfig(): string | undefined {
+		const root = getWorkspaceRoot() ?? process.cwd();
+
+		const filenames = [
+			".stylelintrc.json",
+			".stylelintrc.yaml",
+			".stylelintrc.yml",
+			".stylelintrc.js",
+			".stylelintrc.cjs",
+			".stylelintrc.mjs",
+			".stylelintrc",
+			"stylelint.config.js",
+			"stylelint.config.cjs",
+			"stylelint.config.mjs",
+		];
+		for (const name of filenames) {
+			const libPath = join(root, "lib/configs", name);
+			if (existsSync(libPath)) return libPath;
+			const rootPath = join(root, name);
+			if (existsSync(rootPath)) return rootPath;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Create a handler with custom options.
+	 *
+	 * @param options - Configuration options
+	 * @returns A lint-staged compatible handler function
+	 * @throws Error if stylelint is not available when handler is invoked
+	 */
+	static create(options: StylelintOptions = {}): LintStagedHandler {
+		const excludes = options.exclude ?? [...Stylelint.defaultExcludes];
+		const noFix = options.noFix ?? false;
+
+		// Resolve config: explicit > auto-discovered
+		const config = options.config ?? Stylelint.findConfig();
+
+		return (filenames: readonly string[]): string | string[] => {
+			if (Handler.isSkipped("stylelint")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode);
+
+			if (filtered.length === 0) {
+				return [];
+			}
+
+			// Find stylelint - throw if not available
+			const stylelintCmd = Command.requireTool(
+				"stylelint",
+				"Stylelint is not available. Install it globally or add it as a dev dependency.",
+			);
+
+			const fixFlag = noFix ? "" : "--fix";
+			const configFlag = config ? `--config '${config}'` : "";
+
+			// --allow-empty-input: files that are all in .stylelintignore are not an error
+			return Filter.chunkCommand(
+				filtered,
+				(files) => [stylelintCmd, configFlag, fixFlag, "--allow-empty-input", files].filter(Boolean).join(" "),
+				options,
+			);
+		};
+	}
+}
@@ -1,40 +1,95 @@
 /**
  * Handler for TypeScript files.
  *
- * Runs type checking with tsgo or tsc.
+ * Validates TSDoc comments and runs type checking with tsgo or tsc.
  */
 
-import type { LintStagedHandler, TypeScriptOptions } from "../types.js";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import type { ParserContext, TSDocParser } from "@microsoft/tsdoc";
+import type { FunctionDeclaration, Node } from "typescript";
+import { Handler } from "../Handler.js";
+import type { LintStagedHandler, TypeScriptOptions, TypecheckScope } from "../types.js";
 import type { ToolSearchResult } from "../utils/Command.js";
 import { Command } from "../utils/Command.js";
 import { Filter } from "../utils/Filter.js";
+import type { WorkspacePackageInfo } from "../utils/Workspace.js";
+import { findOwningPackage, getWorkspaceDependents, getWorkspaceRoot } from "../utils/Workspace.js";
 
 /**
  * TypeScript compiler to use.
  */
 export type TypeScriptCompiler = "tsgo" | "tsc";
 
+/**
+ * A single TSDoc problem found in a source file.
+ */
+export interface TsdocDiagnostic {
+	/** Path of the file, as passed to {@link TypeScript.lintTsdoc} */
+	file: string;
+	/** 1-based line number */
+	line: number;
+	/** 1-based column number */
+	column: number;
+	/** TSDoc message identifier, e.g. `tsdoc-undefined-tag` or `tsdoc-param-missing` */
+	messageId: string;
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * A single diagnostic parsed from compiler output.
+ */
+export interface TypecheckDiagnostic {
+	/** Path as printed by the compiler, or null for diagnostics without a location */
+	file: string | null;
+	/** 1-based line number, 0 when there is no location */
+	line: number;
+	/** 1-based column number, 0 when there is no location */
+	column: number;
+	/** Diagnostic code, e.g. `TS2322` */
+	code: string;
+	/** Message text, including any indented continuation lines */
+	message: string;
+}
+
+/** Matches `file(line,col): error TSxxxx: message` (plain output). */
+const PLAIN_DIAGNOSTIC = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+
+/** Matches `file:line:col - error TSxxxx: message` (pretty output). */
+const PRETTY_DIAGNOSTIC = /^(.+?):(\d+):(\d+) - error (TS\d+): (.*)$/;
+
+/** Matches `error TSxxxx: message` (no location, e.g. tsconfig errors). */
+const GLOBAL_DIAGNOSTIC = /^error (TS\d+): (.*)$/;
+
 /**
  * Handler for TypeScript files.
  *
- * Runs type checking with tsgo or tsc.
+ * Validates TSDoc comments and runs type checking with tsgo or tsc.
  *
  * @remarks
- * Type checking runs on all staged TypeScript files using the configured
- * compiler (tsgo or tsc). The compiler is auto-detected at runtime using
- * `Command.findTool()`, which correctly handles pnpm catalogs, peer
- * dependencies, and hoisted/transitive deps.
+ * TSDoc validation runs first via `savvy-lint tsdoc` on the staged files,
+ * reporting unknown tags, malformed `{\@link}` references, and exported
+ * functions whose doc comment is missing a `\@param` block. Tag definitions
+ * come from the nearest `tsdoc.json`, or from the `tsdocConfig` option.
+ *
+ * Type checking uses the configured compiler (tsgo or tsc). The compiler is
+ * auto-detected at runtime using `Command.findTool()`, which correctly
+ * handles pnpm catalogs, peer dependencies, and hoisted/transitive deps.
+ * In a workspace, only the projects affected by the staged files are
+ * checked, one `--project` command per package tsconfig.
  *
  * @example
  * ```typescript
  * import { TypeScript } from '\@savvy-web/lint-staged';
  *
  * export default {
- *   // Auto-detects compiler and runs type checking
+ *   // Validates TSDoc, auto-detects compiler and runs type checking
  *   [TypeScript.glob]: TypeScript.handler,
  *
  *   // Or explicit config
  *   [TypeScript.glob]: TypeScript.create({
+ *     tsdocConfig: './tsdoc.json',
  *     skipTypecheck: true,
  *   }),
  * };
@@ -124,6 +179,136 @@ export class TypeScript {
 		return `${TypeScript.cachedCompilerResult.tool.command} --noEmit`;
 	}
 
+	/**
+	 * Get the type checking command for a single project.
+	 *
+	 * @param tsconfigPath - Path to the project's tsconfig.json
+	 * @returns Command string like `tsgo --noEmit --project 'packages/a/tsconfig.json'`
+	 * @throws Error if no TypeScript compiler is available
+	 */
+	static getProjectTypecheckCommand(tsconfigPath: string): string {
+		return `${TypeScript.getDefaultTypecheckCommand()} --project ${Filter.shellEscape([tsconfigPath])}`;
+	}
+
+	/**
+	 * Find the workspace projects affected by a set of staged files.
+	 *
+	 * @remarks
+	 * Maps each file to its owning workspace package via
+	 * {@link findOwningPackage}. With the `'dependents'` scope, packages that
+	 * depend on an owning package are included too; dependents without a
+	 * `tsconfig.json` are skipped since there is nothing to check.
+	 *
+	 * Returns `null` when a single root-level check is needed instead: outside
+	 * a workspace, or when a file is not inside a package with a
+	 * `tsconfig.json`.
+	 *
+	 * @param filenames - Staged TypeScript files
+	 * @param scope - Whether to include workspace dependents
+	 * @returns Sorted tsconfig.json paths, or null to check the whole repo
+	 */
+	static findAffectedProjects(filenames: readonly string[], scope: TypecheckScope = "dependents"): string[] | null {
+		if (getWorkspaceRoot() === null) return null;
+
+		const owners = new Map<string, WorkspacePackageInfo>();
+		for (const file of filenames) {
+			const owner = findOwningPackage(file);
+			if (owner === null || !existsSync(join(owner.path, "tsconfig.json"))) return null;
+			owners.set(owner.name, owner);
+		}
+
+		const packages = scope === "dependents" ? getWorkspaceDependents([...owners.values()]) : [...owners.values()];
+		return packages
+			.map((pkg) => join(pkg.path, "tsconfig.json"))
+			.filter((tsconfig) => existsSync(tsconfig))
+			.sort();
+	}
+
+	/**
+	 * Parse error diagnostics from tsc or tsgo output.
+	 *
+	 * @remarks
+	 * Understands both the plain `file(line,col): error TS...` format used
+	 * when output is not a terminal and the pretty `file:line:col - error`
+	 * format. Indented lines following a diagnostic are appended to its
+	 * message; other lines are ignored.
+	 *
+	 * @param output - Combined stdout and stderr of the compiler
+	 * @returns Parsed error diagnostics in output order
+	 */
+	static parseTypecheckOutput(output: string): TypecheckDiagnostic[] {
+		const diagnostics: TypecheckDiagnostic[] = [];
+		let current: TypecheckDiagnostic | undefined;
+
+		for (const raw of output.split(/\r?\n/)) {
+			// biome-ignore lint/suspicious/noControlCharactersInRegex: strips ANSI colors from pretty output
+			const line = raw.replace(/\u001b\[[0-9;]*m/g, "");
+			const located = PLAIN_DIAGNOSTIC.exec(line) ?? PRETTY_DIAGNOSTIC.exec(line);
+			const global = located ? null : GLOBAL_DIAGNOSTIC.exec(line);
+
+			if (located) {
+				const [, file = "", lineNumber = "0", column = "0", code = "", message = ""] = located;
+				current = { file, line: Number(lineNumber), column: Number(column), code, message };
+				diagnostics.push(current);
+			} else if (global) {
+				const [, code = "", message = ""] = global;
+				current = { file: null, line: 0, column: 0, code, message };
+				diagnostics.push(current);
+			} else if (current && /^\s+\S/.test(line)) {
+				current.message += `\n${line.trimEnd()}`;
+			} else {
+				current = undefined;
+			}
+		}
+
+		return diagnostics;
+	}
+
+	/**
+	 * Split diagnostics into those that block the commit and those to ignore.
+	 *
+	 * @remarks
+	 * Diagnostics in one of the staged files block the commit, as do
+	 * diagnostics without a file location since they usually mean the
+	 * project itself is misconfigured. Everything else is ignored.
+	 *
+	 * @param diagnostics - Parsed compiler diagnostics
+	 * @param stagedFiles - Staged file paths, absolute or relative to `cwd`
+	 * @param cwd - Directory the compiler ran in
+	 * @returns Blocking and ignored diagnostics
+	 */
+	static partitionDiagnostics(
+		diagnostics: readonly TypecheckDiagnostic[],
+		stagedFiles: readonly string[],
+		cwd: string = process.cwd(),
+	): { blocking: TypecheckDiagnostic[]; ignored: TypecheckDiagnostic[] } {
+		const staged = new Set(stagedFiles.map((file) => resolve(cwd, file)));
+		const blocking: TypecheckDiagnostic[] = [];
+		const ignored: TypecheckDiagnostic[] = [];
+
+		for (const diagnostic of diagnostics) {
+			if (diagnostic.file === null || staged.has(resolve(cwd, diagnostic.file))) {
+				blocking.push(diagnostic);
+			} else {
+				ignored.push(diagnostic);
+			}
+		}
+
+		return { blocking, ignored };
+	}
+
+	/**
+	 * Format a compiler diagnostic as a `file:line:column` report line.
+	 *
+	 * @param diagnostic - The diagnostic to format
+	 * @returns A line like `src/index.ts:3:7 - error TS2322: Type ...`
+	 */
+	static formatTypecheckDiagnostic(diagnostic: TypecheckDiagnostic): string {
+		const { file, line, column, code, message } = diagnostic;
+		const location = file === null ? "" : `${file}:${line}:${column} - `;
+		return `${location}error ${code}: ${message}`;
+	}
+
 	/**
 	 * Clear the cached compiler detection result.
 	 * Useful for testing or when the environment changes.
@@ -132,6 +317,146 @@ export class TypeScript {
 		TypeScript.cachedCompilerResult = null;
 	}
 
+	/**
+	 * Validate TSDoc comments in the given files.
+	 *
+	 * @remarks
+	 * Every `/** ... *\/` comment is parsed with the TSDoc parser, so unknown
+	 * tags, malformed inline tags such as `{\@link}`, and other syntax errors
+	 * are reported. Exported function declarations with a doc comment must
+	 * also document each named parameter with `\@param`; functions without
+	 * any doc comment are not checked.
+	 *
+	 * Tag definitions are loaded from `configPath` when given, otherwise from
+	 * the nearest `tsdoc.json` above each file. Without a config file the
+	 * standard TSDoc tags are used.
+	 *
+	 * @param filenames - TypeScript files to validate
+	 * @param configPath - Optional path to a `tsdoc.json` file
+	 * @returns Diagnostics sorted by file, then position
+	 * @throws Error if the TSDoc config file is invalid
+	 */
+	static async lintTsdoc(filenames: readonly string[], configPath?: string): Promise<TsdocDiagnostic[]> {
+		const { default: ts } = await import("typescript");
+		const { TextRange, TSDocConfiguration, TSDocParser: Parser } = await import("@microsoft/tsdoc");
+		const { TSDocConfigFile } = await import("@microsoft/tsdoc-config");
+
+		const parsers = new Map<string, TSDocParser>();
+		const getParser = (file: string): TSDocParser => {
+			const found = configPath ?? TypeScript.findTsdocConfig(file);
+			const key = found ? resolve(found) : "";
+			let parser = parsers.get(key);
+			if (parser === undefined) {
+				const configuration = new TSDocConfiguration();
+				if (key) {
+					const configFile = TSDocConfigFile.loadFile(key);
+					if (configFile.hasErrors) {
+						throw new Error(`Invalid TSDoc config ${key}:\n${configFile.getErrorSummary()}`);
+					}
+					configFile.configureParser(configuration);
+				}
+				parser = new Parser(configuration);
+				parsers.set(key, parser);
+			}
+			return parser;
+		};
+
+		const diagnostics: TsdocDiagnostic[] = [];
+
+		for (const file of filenames) {
+			const text = readFileSync(file, "utf-8");
+			const sourceFile = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true);
+			const parser = getParser(file);
+			const contexts = new Map<number, ParserContext>();
+
+			const report = (pos: number, messageId: string, message: string): void => {
+				const { line, character } = sourceFile.getLineAndCharacterOfPosition(pos);
+				diagnostics.push({ file, line: line + 1, column: character + 1, messageId, message });
+			};
+
+			const visit = (node: Node): void => {
+				const ranges = ts.getLeadingCommentRanges(text, node.getFullStart()) ?? [];
+				const docRanges = ranges.filter((range) => {
+					const comment = text.slice(range.pos, range.end);
+					return comment.startsWith("/**") && comment !== "/**/";
+				});
+
+				for (const range of docRanges) {
+					if (contexts.has(range.pos)) continue;
+
+					const context = parser.parseRange(TextRange.fromStringRange(text, range.pos, range.end));
+					contexts.set(range.pos, context);
+					for (const message of context.log.messages) {
+						report(message.textRange.pos, message.messageId, message.unformattedText);
+					}
+				}
+
+				// The doc comment closest to the declaration is the one that documents it
+				const docRange = docRanges.at(-1);
+				if (docRange && ts.isFunctionDeclaration(node) && TypeScript.isExported(ts, node)) {
+					const context = contexts.get(docRange.pos);
+					const documented = new Set(context?.docComment.params.blocks.map((block) => block.parameterName));
+					for (const parameter of node.parameters) {
+						if (!ts.isIdentifier(parameter.name) || documented.has(parameter.name.text)) continue;
+						const name = node.name?.text ?? "default";
+						report(
+							parameter.name.getStart(sourceFile),
+							"tsdoc-param-missing",
+							`Missing @param for "${parameter.name.text}" in exported function "${name}"`,
+						);
+					}
+				}
+
+				ts.forEachChild(node, visit);
+			};
+
+			visit(sourceFile);
+		}
+
+		return diagnostics.sort((a, b) =>
+			a.file === b.file ? a.line - b.line || a.column - b.column : a.file < b.file ? -1 : 1,
+		);
+	}
+
+	/**
+	 * Format a TSDoc diagnostic as a `file:line:column` report line.
+	 *
+	 * @param diagnostic - The diagnostic to format
+	 * @returns A line like `src/index.ts:12:4 - Missing @param ... (tsdoc-param-missing)`
+	 */
+	static formatTsdocDiagnostic(diagnostic: TsdocDiagnostic): string {
+		const { file, line, column, message, messageId } = diagnostic;
+		return `${file}:${line}:${column} - ${message} (${messageId})`;
+	}
+
+	/**
+	 * Find the nearest `tsdoc.json` in the directories above a file.
+	 *
+	 * @param file - Path of the source file
+	 * @returns Path to the config file, or undefined if none exists
+	 */
+	private static findTsdocConfig(file: string): string | undefined {
+		let dir = dirname(resolve(file));
+		while (true) {
+			const candidate = join(dir, "tsdoc.json");
+			if (existsSync(candidate)) return candidate;
+			const parent = dirname(dir);
+			if (parent === dir) return undefined;
+			dir = parent;
+		}
+	}
+
+	/**
+	 * Check whether a declaration carries an `export` modifier.
+	 *
+	 * @param ts - The loaded TypeScript module
+	 * @param node - The declaration to inspect
+	 * @returns `true` if the declaration is exported
+	 */
+	private static isExported(ts: typeof import("typescript"), node: FunctionDeclaration): boolean {
+		return ts.getModifiers(node)?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword) ?? false;
+	}
+
 	/**
 	 * Pre-configured handler with default options.
 	 */
@@ -140,27 +465,59 @@ export class TypeScript {
 	/**
 	 * Create a handler with custom options.
 	 *
+	 * @remarks
+	 * Returns a `savvy-lint tsdoc` command for the staged files followed by
+	 * the type checking commands. lint-staged runs them in order, so type
+	 * checking only starts once the TSDoc comments are valid. Type checking
+	 * is limited to the affected workspace projects (see
+	 * {@link TypeScript.findAffectedProjects}) unless a custom
+	 * `typecheckCommand` is given. With `stagedDiagnosticsOnly`, each
+	 * typecheck command is wrapped in `savvy-lint typecheck` so only errors
+	 * in the staged files fail the commit.
+	 *
 	 * @param options - Configuration options
 	 * @returns A lint-staged compatible handler function
 	 */
 	static create(options: TypeScriptOptions = {}): LintStagedHandler {
 		const excludes = options.exclude ?? [...TypeScript.defaultExcludes];
+		const skipTsdoc = options.skipTsdoc ?? false;
 		const skipTypecheck = options.skipTypecheck ?? false;
+		const typecheckScope = options.typecheckScope ?? "dependents";
+		const stagedDiagnosticsOnly = options.stagedDiagnosticsOnly ?? false;
 
-		// Lazy-load typecheck command to avoid throwing during import
-		let typecheckCommand: string | undefined;
-		const getTypecheckCommand = (): string => {
-			if (typecheckCommand === undefined) {
-				typecheckCommand = options.typecheckCommand ?? TypeScript.getDefaultTypecheckCommand();
-			}
-			return typecheckCommand;
+		// Lazy-load typecheck commands to avoid throwing during import
+		const getTypecheckCommands = (filenames: readonly string[]): string[] => {
+			if (options.typecheckCommand !== undefined) return [options.typecheckCommand];
+
+			const projects = TypeScript.findAffectedProjects(filenames, typecheckScope);
+			if (projects === null) return [TypeScript.getDefaultTypecheckCommand()];
+			return projects.map((tsconfig) => TypeScript.getProjectTypecheckCommand(tsconfig));
 		};
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = Filter.exclude(filenames, excludes);
+			if (Handler.isSkipped("typescript")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode);
 			if (filtered.length === 0) return [];
-			if (!skipTypecheck) return [getTypecheckCommand()];
-			return [];
+
+			const commands: string[] = [];
+			if (!skipTsdoc) {
+				const config = options.tsdocConfig ? ` --config ${Filter.shellEscape([options.tsdocConfig])}` : "";
+				const tsdoc = `${Command.findSavvyLint()} tsdoc${config}`;
+				commands.push(...[Filter.chunkCommand(filtered, (files) => `${tsdoc} ${files}`, options)].flat());
+			}
+			if (!skipTypecheck) {
+				for (const command of getTypecheckCommands(filtered)) {
+					if (!stagedDiagnosticsOnly) {
+						commands.push(command);
+						continue;
+					}
+					// Each chunk re-runs the typecheck, keeping the errors in its own files
+					const typecheck = `${Command.findSavvyLint()} typecheck --command ${Filter.shellEscape([command])}`;
+					commands.push(...[Filter.chunkCommand(filtered, (files) => `${typecheck} ${files}`, options)].flat());
+				}
+			}
+			return commands;
 		};
 	}
 }
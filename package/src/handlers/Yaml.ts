@@ -8,6 +8,7 @@ import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import { format, resolveConfig } from "prettier";
 import { lint } from "yaml-lint";
+import { Handler } from "../Handler.js";
 import type { LintStagedHandler, YamlOptions } from "../types.js";
 import { Command } from "../utils/Command.js";
 import { Filter } from "../utils/Filter.js";
@@ -145,14 +146,16 @@ export class Yaml {
 		const excludes = options.exclude ?? [...Yaml.defaultExcludes];
 
 		return (filenames: readonly string[]): string | string[] => {
-			const filtered = Filter.exclude(filenames, excludes);
+			if (Handler.isSkipped("yaml")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode);
 
 			if (filtered.length === 0) {
 				return [];
 			}
 
 			const cmd = Command.findSavvyLint();
-			return `${cmd} fmt yaml ${Filter.shellEscape(filtered)}`;
+			return Filter.chunkCommand(filtered, (files) => `${cmd} fmt yaml ${files}`, options);
 		};
 	}
 
@@ -172,7 +175,9 @@ export class Yaml {
 		const schema = configPath ? Yaml.loadConfig(configPath) : undefined;
 
 		return async (filenames: readonly string[]): Promise<string | string[]> => {
-			const filtered = Filter.exclude(filenames, excludes);
+			if (Handler.isSkipped("yaml")) return [];
+
+			const filtered = Filter.exclude(filenames, excludes, options.patternMode);
 
 			if (filtered.length === 0) {
 				return [];
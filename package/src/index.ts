@@ -21,18 +21,45 @@
 
 export type { ConfigLocation } from "@savvy-web/silk-effects";
 export { ConfigDiscovery, ConfigDiscoveryLive } from "@savvy-web/silk-effects";
-export { checkCommand, fmtCommand, initCommand, rootCommand, runCli } from "./cli/index.js";
+export {
+	checkCommand,
+	explainCommand,
+	fmtCommand,
+	initCommand,
+	migrateCommand,
+	printConfigCommand,
+	rootCommand,
+	runCli,
+	runCommand,
+	tsdocCommand,
+	typecheckCommand,
+	uninstallCommand,
+} from "./cli/index.js";
 export { createConfig } from "./config/createConfig.js";
+export type { ResolvedConfig, ResolvedGlob, ResolvedStep, ResolvedTool } from "./config/describeConfig.js";
+export { describeConfig } from "./config/describeConfig.js";
+export type { LoadedConfig } from "./config/loadConfig.js";
+export { CONFIG_SEARCH_PATHS, findConfigPath, loadConfig } from "./config/loadConfig.js";
+export type { HandlerKey, MigratedEntry, MigrationResult } from "./config/migrateConfig.js";
+export { migrateConfig } from "./config/migrateConfig.js";
 export type { PresetExtendOptions } from "./config/Preset.js";
 export { Preset } from "./config/Preset.js";
+export type { LintStagedTask } from "./config/resolveTasks.js";
+export { matchGlob, resolveTasks } from "./config/resolveTasks.js";
 export { Handler } from "./Handler.js";
 export { Biome } from "./handlers/Biome.js";
 export { Markdown } from "./handlers/Markdown.js";
 export { PackageJson } from "./handlers/PackageJson.js";
-export type { PnpmWorkspaceContent } from "./handlers/PnpmWorkspace.js";
+export type {
+	CatalogEntry,
+	CatalogIssues,
+	CatalogReference,
+	PnpmWorkspaceContent,
+} from "./handlers/PnpmWorkspace.js";
 export { PnpmWorkspace } from "./handlers/PnpmWorkspace.js";
 export { ShellScripts } from "./handlers/ShellScripts.js";
-export type { TypeScriptCompiler } from "./handlers/TypeScript.js";
+export { Stylelint } from "./handlers/Stylelint.js";
+export type { TsdocDiagnostic, TypeScriptCompiler, TypecheckDiagnostic } from "./handlers/TypeScript.js";
 export { TypeScript } from "./handlers/TypeScript.js";
 export { Yaml } from "./handlers/Yaml.js";
 export type {
@@ -44,10 +71,16 @@ export type {
 	LintStagedHandler,
 	MarkdownOptions,
 	PackageJsonOptions,
+	PatternMode,
 	PnpmWorkspaceOptions,
 	PresetType,
+	ShebangInterpreter,
 	ShellScriptsOptions,
+	ShellcheckSeverity,
+	ShellcheckShell,
+	StylelintOptions,
 	TypeScriptOptions,
+	TypecheckScope,
 	YamlOptions,
 } from "./types.js";
 export type { PackageManager, ToolSearchResult } from "./utils/Command.js";
@@ -55,6 +88,8 @@ export { Command } from "./utils/Command.js";
 export { Filter } from "./utils/Filter.js";
 export type { WorkspacePackageInfo } from "./utils/Workspace.js";
 export {
+	findOwningPackage,
+	getWorkspaceDependents,
 	getWorkspacePackagePaths,
 	getWorkspacePackages,
 	getWorkspaceRoot,
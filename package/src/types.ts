@@ -31,15 +31,58 @@ export type LintStagedConfig = Record<string, LintStagedEntry | LintStagedEntry[
  */
 export type { Configuration };
 
+/**
+ * How handler and `Filter` patterns are interpreted.
+ *
+ * - `'auto'` - globs if they contain `*`, `?`, `[]`, `{}` or start with `!`, substrings otherwise
+ * - `'glob'` - every pattern is a glob
+ * - `'substring'` - every pattern is matched with `string.includes()`
+ */
+export type PatternMode = "auto" | "glob" | "substring";
+
+/**
+ * Interpreter named by a script's shebang line, as classified by `Filter.shebang`.
+ *
+ * @remarks
+ * `dash`, `ksh` and `ash` are classified as `'sh'`.
+ */
+export type ShebangInterpreter = "sh" | "bash" | "zsh" | "node" | "tsx";
+
 /**
  * Base options shared by all handlers.
  */
 export interface BaseHandlerOptions {
 	/**
 	 * Patterns to exclude from processing.
-	 * Uses `string.includes()` for matching.
+	 *
+	 * @remarks
+	 * Supports globs (`*`, `**`, `{a,b}`, `!negation`) and plain substrings,
+	 * as interpreted by `patternMode`. Later patterns win, so `!` re-includes
+	 * files excluded by an earlier pattern.
 	 */
 	exclude?: string[];
+
+	/**
+	 * How `exclude` patterns are interpreted.
+	 * @defaultValue 'auto'
+	 */
+	patternMode?: PatternMode;
+
+	/**
+	 * Maximum length of the shell-escaped file list in one command.
+	 *
+	 * @remarks
+	 * Longer file lists are split across several commands, which lint-staged
+	 * runs one after another.
+	 * @defaultValue `8000` on Windows, `131072` elsewhere
+	 */
+	maxArgLength?: number;
+
+	/**
+	 * Maximum number of files in one command.
+	 * @defaultValue unlimited (only `maxArgLength` applies)
+	 */
+	chunkSize?: number;
 }
 
 /**
@@ -96,6 +139,23 @@ export interface MarkdownOptions extends BaseHandlerOptions {
 	noFix?: boolean;
 }
 
+/**
+ * Options for the Stylelint handler.
+ */
+export interface StylelintOptions extends BaseHandlerOptions {
+	/**
+	 * Path to the Stylelint config file.
+	 * @defaultValue auto-discovered in `lib/configs/` and at the workspace root
+	 */
+	config?: string;
+
+	/**
+	 * Disable auto-fix (lint only).
+	 * @defaultValue false
+	 */
+	noFix?: boolean;
+}
+
 /**
  * Options for the PnpmWorkspace handler.
  */
@@ -117,6 +177,12 @@ export interface PnpmWorkspaceOptions {
 	 * @defaultValue false
 	 */
 	skipLint?: boolean;
+
+	/**
+	 * Skip cross-checking catalog entries against `catalog:` references in package.json files.
+	 * @defaultValue false
+	 */
+	skipCatalogCheck?: boolean;
 }
 
 /**
@@ -128,8 +194,85 @@ export interface ShellScriptsOptions extends BaseHandlerOptions {
 	 * @defaultValue false
 	 */
 	makeExecutable?: boolean;
+
+	/**
+	 * Patterns of scripts that should be executable, e.g. `['.husky/', 'bin/']`.
+	 *
+	 * @remarks
+	 * Matched like `exclude`. Other scripts follow `makeExecutable`, except
+	 * that extensionless scripts are never made non-executable.
+	 */
+	executable?: string[];
+
+	/**
+	 * Record the intended mode in the git index with `git update-index --chmod`.
+	 *
+	 * @remarks
+	 * The post-checkout hook sets `core.fileMode false`, so `chmod` alone never
+	 * reaches git. With this option the staged scripts' modes are also set in
+	 * the index.
+	 * `createConfig` records them from a single
+	 * `ShellScripts.indexCommand()` entry, since concurrent
+	 * `git update-index` runs would conflict on `index.lock`.
+	 * @defaultValue false
+	 */
+	updateIndex?: boolean;
+
+	/**
+	 * Skip formatting with shfmt.
+	 *
+	 * @remarks
+	 * Formatting only runs when shfmt is installed.
+	 *
+	 * @defaultValue false
+	 */
+	skipFormat?: boolean;
+
+	/**
+	 * Indentation shfmt uses (`-i`): `0` for tabs, otherwise the number of spaces.
+	 * @defaultValue from `.editorconfig`, otherwise shfmt's default (tabs)
+	 */
+	indent?: number;
+
+	/**
+	 * Lint the scripts with ShellCheck.
+	 *
+	 * @remarks
+	 * When ShellCheck is not installed, the handler warns and only manages
+	 * the executable bit.
+	 *
+	 * @defaultValue false
+	 */
+	shellcheck?: boolean;
+
+	/**
+	 * Minimum severity ShellCheck reports (`--severity`).
+	 * @defaultValue ShellCheck's default, `'style'`
+	 */
+	shellcheckSeverity?: ShellcheckSeverity;
+
+	/**
+	 * ShellCheck codes to ignore (`--exclude`), e.g. `['SC1091', 'SC2086']`.
+	 */
+	shellcheckExclude?: string[];
+
+	/**
+	 * Shell dialect ShellCheck assumes (`--shell`).
+	 * @defaultValue detected by ShellCheck from the shebang
+	 */
+	shellcheckShell?: ShellcheckShell;
 }
 
+/**
+ * Minimum severity of ShellCheck findings to report.
+ */
+export type ShellcheckSeverity = "error" | "warning" | "info" | "style";
+
+/**
+ * Shell dialects supported by ShellCheck.
+ */
+export type ShellcheckShell = "sh" | "bash" | "dash" | "ksh" | "busybox";
+
 /**
  * Options for the Yaml handler.
  */
@@ -156,6 +299,18 @@ export interface YamlOptions extends BaseHandlerOptions {
  * Options for the TypeScript handler.
  */
 export interface TypeScriptOptions extends BaseHandlerOptions {
+	/**
+	 * Skip TSDoc validation.
+	 * @defaultValue false
+	 */
+	skipTsdoc?: boolean;
+
+	/**
+	 * Path to the tsdoc.json used for TSDoc validation.
+	 * @defaultValue Nearest tsdoc.json above each staged file
+	 */
+	tsdocConfig?: string;
+
 	/**
 	 * Skip type checking.
 	 * @defaultValue false
@@ -164,11 +319,46 @@ export interface TypeScriptOptions extends BaseHandlerOptions {
 
 	/**
 	 * Command for type checking.
+	 *
+	 * @remarks
+	 * When set, the command runs once as given and `typecheckScope` is ignored.
+	 *
 	 * @defaultValue Auto-detected
 	 */
 	typecheckCommand?: string;
+
+	/**
+	 * Which workspace projects to type check.
+	 *
+	 * - `'packages'` - only the packages that own the staged files
+	 * - `'dependents'` - the owning packages plus their workspace dependents
+	 *
+	 * Falls back to a single root-level check outside a workspace, or when a
+	 * staged file is not inside a package with a `tsconfig.json`.
+	 *
+	 * @defaultValue 'dependents'
+	 */
+	typecheckScope?: TypecheckScope;
+
+	/**
+	 * Only fail on type errors located in the staged files.
+	 *
+	 * @remarks
+	 * Runs each typecheck command through `savvy-lint typecheck`, which parses
+	 * the compiler diagnostics. Errors in other files are summarized as a
+	 * warning count instead of blocking the commit. Long file lists are split
+	 * by `maxArgLength` and `chunkSize`, and each chunk re-runs the check.
+	 *
+	 * @defaultValue false
+	 */
+	stagedDiagnosticsOnly?: boolean;
 }
 
+/**
+ * Which workspace projects the TypeScript handler type checks.
+ */
+export type TypecheckScope = "packages" | "dependents";
+
 /**
  * Options for createConfig() helper.
  */
@@ -208,10 +398,34 @@ export interface CreateConfigOptions {
 	 */
 	typescript?: TypeScriptOptions | false;
 
+	/**
+	 * Options for Stylelint handler, or false to disable.
+	 *
+	 * @remarks
+	 * Unlike the other handlers, Stylelint is disabled unless set, e.g.
+	 * `stylelint: {}`, since it needs a Stylelint install and config.
+	 *
+	 * @defaultValue false
+	 */
+	stylelint?: StylelintOptions | false;
+
 	/**
 	 * Custom handlers to add to the configuration.
 	 */
 	custom?: LintStagedConfig;
+
+	/**
+	 * Ignore files applied to every handler, or false to disable.
+	 *
+	 * @remarks
+	 * Each file uses `.gitignore` syntax and is read at the workspace root and
+	 * in every workspace package. Matching files are removed before any
+	 * handler function runs, including custom handlers. Plain string commands
+	 * are passed through unchanged.
+	 *
+	 * @defaultValue `['.gitignore', '.savvylintignore']`
+	 */
+	ignoreFiles?: string[] | false;
 }
 
 /**
@@ -12,37 +12,137 @@
  * ```
  */
 
+import { closeSync, existsSync, openSync, readFileSync, readSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, relative, resolve } from "node:path";
+import picomatch from "picomatch";
+import type { BaseHandlerOptions, PatternMode, ShebangInterpreter } from "../types.js";
+import { getWorkspacePackagePaths, getWorkspaceRoot } from "./Workspace.js";
+
+/** Compiled glob matchers, keyed by pattern. */
+const matchers = new Map<string, (path: string) => boolean>();
+
+/** Interpreter classification, keyed by the executable name in a shebang. */
+const SHEBANG_INTERPRETERS: Record<string, ShebangInterpreter> = {
+	sh: "sh",
+	ash: "sh",
+	dash: "sh",
+	ksh: "sh",
+	bash: "bash",
+	zsh: "zsh",
+	node: "node",
+	tsx: "tsx",
+};
+
 /**
  * Static utility class for filtering file lists.
+ *
+ * @remarks
+ * Patterns are matched according to a {@link PatternMode}. In the default
+ * `'auto'` mode, patterns containing glob syntax (`*`, `?`, `[]`, `{}`) or
+ * starting with `!` are globs; all others keep the original
+ * `string.includes()` substring behavior.
+ *
+ * Globs are matched against paths relative to the current working directory,
+ * so absolute paths from lint-staged work with patterns like `dist/**`. A glob
+ * without a `/` matches the file's basename at any depth, and a glob ending in
+ * `/` matches everything below that directory. Patterns are evaluated in
+ * order and the last match wins, so `!` re-includes files matched by an
+ * earlier pattern.
  */
 // biome-ignore lint/complexity/noStaticOnlyClass: Intentional pattern for TSDoc discoverability
 export class Filter {
+	/**
+	 * Ignore files read by {@link Filter.findIgnorePatterns}.
+	 * @defaultValue `['.gitignore', '.savvylintignore']`
+	 */
+	static readonly defaultIgnoreFiles = [".gitignore", ".savvylintignore"] as const;
+
+	/**
+	 * Default maximum length of the shell-escaped file list in one command.
+	 *
+	 * @remarks
+	 * Windows limits a command line to 8191 characters. Elsewhere `ARG_MAX`
+	 * is far higher, but it is shared with the environment, so 128 KiB leaves
+	 * room for both.
+	 * @defaultValue `8000` on Windows, `131072` elsewhere
+	 */
+	static readonly defaultMaxArgLength: number = process.platform === "win32" ? 8000 : 131072;
+
+	/**
+	 * Check whether a pattern uses glob syntax.
+	 *
+	 * @param pattern - The pattern to inspect
+	 * @returns `true` if the pattern contains `*`, `?`, `[]`, `{}` or starts with `!`
+	 */
+	static isGlob(pattern: string): boolean {
+		return pattern.startsWith("!") || /[*?[\]{}]/.test(pattern);
+	}
+
+	/**
+	 * Check whether a file matches a list of patterns.
+	 *
+	 * @remarks
+	 * Patterns are evaluated in order and the last matching pattern decides.
+	 * A negated glob (`!pattern`) that matches un-matches the file.
+	 *
+	 * @param file - File path, absolute or relative to the working directory
+	 * @param patterns - Substring or glob patterns
+	 * @param mode - How to interpret the patterns
+	 * @returns `true` if the file matches
+	 *
+	 * @example
+	 * ```typescript
+	 * Filter.matches('src/api.gen.ts', ['**\/*.gen.ts']); // true
+	 * Filter.matches('dist/keep.js', ['dist/**', '!dist/keep.js']); // false
+	 * ```
+	 */
+	static matches(file: string, patterns: readonly string[], mode: PatternMode = "auto"): boolean {
+		let matched = false;
+
+		for (const pattern of patterns) {
+			const glob = mode === "glob" || (mode === "auto" && Filter.isGlob(pattern));
+			if (!glob) {
+				if (file.includes(pattern)) matched = true;
+				continue;
+			}
+
+			const negated = pattern.startsWith("!");
+			if (Filter.matchesGlob(file, negated ? pattern.slice(1) : pattern)) {
+				matched = !negated;
+			}
+		}
+
+		return matched;
+	}
+
 	/**
 	 * Exclude files matching any of the given patterns.
 	 *
 	 * @param filenames - Array of file paths
-	 * @param patterns - Patterns to exclude (uses `string.includes()`)
+	 * @param patterns - Patterns to exclude (see {@link Filter.matches})
+	 * @param mode - How to interpret the patterns
 	 * @returns Filtered array of file paths
 	 *
 	 * @example
 	 * ```typescript
-	 * const files = ['src/index.ts', 'dist/index.js', '__fixtures__/test.ts'];
-	 * const filtered = Filter.exclude(files, ['dist/', '__fixtures__']);
+	 * const files = ['src/index.ts', 'dist/index.js', '__fixtures__/test.ts', 'src/api.gen.ts'];
+	 * const filtered = Filter.exclude(files, ['dist/', '__fixtures__', '**\/*.gen.ts']);
 	 * // Result: ['src/index.ts']
 	 * ```
 	 */
-	static exclude(filenames: readonly string[], patterns: readonly string[]): string[] {
+	static exclude(filenames: readonly string[], patterns: readonly string[], mode: PatternMode = "auto"): string[] {
 		if (patterns.length === 0) {
 			return [...filenames];
 		}
-		return filenames.filter((file) => !patterns.some((pattern) => file.includes(pattern)));
+		return filenames.filter((file) => !Filter.matches(file, patterns, mode));
 	}
 
 	/**
 	 * Include only files matching any of the given patterns.
 	 *
 	 * @param filenames - Array of file paths
-	 * @param patterns - Patterns to include (uses `string.includes()`)
+	 * @param patterns - Patterns to include (see {@link Filter.matches})
+	 * @param mode - How to interpret the patterns
 	 * @returns Filtered array of file paths
 	 *
 	 * @example
@@ -52,11 +152,11 @@ export class Filter {
 	 * // Result: ['src/index.ts', 'lib/utils.ts']
 	 * ```
 	 */
-	static include(filenames: readonly string[], patterns: readonly string[]): string[] {
+	static include(filenames: readonly string[], patterns: readonly string[], mode: PatternMode = "auto"): string[] {
 		if (patterns.length === 0) {
 			return [];
 		}
-		return filenames.filter((file) => patterns.some((pattern) => file.includes(pattern)));
+		return filenames.filter((file) => Filter.matches(file, patterns, mode));
 	}
 
 	/**
@@ -81,21 +181,90 @@ export class Filter {
 		options: {
 			include?: readonly string[];
 			exclude?: readonly string[];
+			mode?: PatternMode;
 		},
 	): string[] {
 		let result: string[] = [...filenames];
 
 		if (options.include && options.include.length > 0) {
-			result = Filter.include(result, options.include);
+			result = Filter.include(result, options.include, options.mode);
 		}
 
 		if (options.exclude && options.exclude.length > 0) {
-			result = Filter.exclude(result, options.exclude);
+			result = Filter.exclude(result, options.exclude, options.mode);
 		}
 
 		return result;
 	}
 
+	/**
+	 * Read a `.gitignore`-syntax file and convert it to glob patterns.
+	 *
+	 * @remarks
+	 * The returned patterns are absolute, anchored to the directory holding
+	 * the ignore file, and meant for `'glob'` mode. They follow gitignore
+	 * rules: `#` comments, `!` negation, a leading `/` or inner `/` anchors
+	 * the pattern to that directory, a pattern without `/` matches at any
+	 * depth, and a trailing `/` only matches directories. Matching a
+	 * directory ignores everything below it.
+	 *
+	 * @param path - Path to the ignore file
+	 * @returns Glob patterns, empty if the file does not exist
+	 *
+	 * @example
+	 * ```typescript
+	 * const patterns = Filter.ignoreFile('.savvylintignore');
+	 * const filtered = Filter.exclude(files, patterns, 'glob');
+	 * ```
+	 */
+	static ignoreFile(path: string): string[] {
+		if (!existsSync(path)) {
+			return [];
+		}
+
+		const base = dirname(resolve(path)).replace(/[*?[\]{}()!+@]/g, "\\$&");
+		const patterns: string[] = [];
+
+		for (const raw of readFileSync(path, "utf-8").split(/\r?\n/)) {
+			let line = raw.replace(/(?<!\\)\s+$/, "");
+			if (line === "" || line.startsWith("#")) continue;
+
+			const negated = line.startsWith("!");
+			if (negated) line = line.slice(1);
+			if (line.startsWith("\\")) line = line.slice(1);
+
+			const dirOnly = line.endsWith("/");
+			if (dirOnly) line = line.slice(0, -1);
+			const anchored = line.includes("/");
+			if (line.startsWith("/")) line = line.slice(1);
+			if (line === "") continue;
+
+			const prefix = negated ? "!" : "";
+			const glob = `${base}/${anchored ? line : `**/${line}`}`;
+			if (!dirOnly) patterns.push(`${prefix}${glob}`);
+			patterns.push(`${prefix}${glob}/**`);
+		}
+
+		return patterns;
+	}
+
+	/**
+	 * Collect ignore patterns from the workspace root and every package.
+	 *
+	 * @remarks
+	 * Reads each named ignore file with {@link Filter.ignoreFile} at the
+	 * workspace root (or the working directory outside a workspace), then in
+	 * each leaf workspace package. Package patterns come last, so a package
+	 * can re-include files ignored at the root.
+	 *
+	 * @param names - Ignore file names to read in each directory
+	 * @returns Glob patterns for use with `'glob'` mode
+	 */
+	static findIgnorePatterns(names: readonly string[] = Filter.defaultIgnoreFiles): string[] {
+		const directories = [getWorkspaceRoot() ?? process.cwd(), ...getWorkspacePackagePaths()];
+		return directories.flatMap((dir) => names.flatMap((name) => Filter.ignoreFile(join(dir, name))));
+	}
+
 	/**
 	 * Escape file paths for safe shell command construction.
 	 *
@@ -115,4 +284,140 @@ export class Filter {
 	static shellEscape(filenames: readonly string[]): string {
 		return filenames.map((f) => `'${f.replace(/'/g, "'\\''")}'`).join(" ");
 	}
+
+	/**
+	 * Classify a file by the interpreter in its shebang line.
+	 *
+	 * @remarks
+	 * Only the first line is read. The interpreter may be named directly
+	 * (`#!/bin/bash`) or through `env` (`#!/usr/bin/env -S node --flag`).
+	 *
+	 * @param file - File path, absolute or relative to the working directory
+	 * @returns The interpreter, or null if the file is unreadable, has no shebang, or names another interpreter
+	 *
+	 * @example
+	 * ```typescript
+	 * Filter.shebang('bin/release'); // 'bash' for "#!/usr/bin/env bash"
+	 * ```
+	 */
+	static shebang(file: string): ShebangInterpreter | null {
+		let fd: number | undefined;
+		try {
+			fd = openSync(file, "r");
+			const buffer = Buffer.alloc(256);
+			const head = buffer.toString("utf-8", 0, readSync(fd, buffer, 0, buffer.length, 0));
+			if (!head.startsWith("#!")) return null;
+
+			const [interpreter = "", ...args] = head.slice(2).split(/\r?\n/)[0].trim().split(/\s+/);
+			const name =
+				basename(interpreter) === "env"
+					? args.find((arg) => !arg.startsWith("-") && !arg.includes("="))
+					: basename(interpreter);
+			return (name !== undefined && SHEBANG_INTERPRETERS[name]) || null;
+		} catch {
+			return null;
+		} finally {
+			if (fd !== undefined) closeSync(fd);
+		}
+	}
+
+	/**
+	 * Keep only files whose shebang names one of the given interpreters.
+	 *
+	 * @param filenames - Array of file paths
+	 * @param interpreters - Interpreters to keep (see {@link Filter.shebang})
+	 * @returns Matching files, in input order
+	 */
+	static byShebang(filenames: readonly string[], interpreters: readonly ShebangInterpreter[]): string[] {
+		return filenames.filter((file) => {
+			const interpreter = Filter.shebang(file);
+			return interpreter !== null && interpreters.includes(interpreter);
+		});
+	}
+
+	/**
+	 * Split a file list into chunks that each fit in one command.
+	 *
+	 * @remarks
+	 * A chunk ends before its shell-escaped length would exceed `maxArgLength`
+	 * or it would hold more than `chunkSize` files. A single file longer than
+	 * `maxArgLength` gets a chunk of its own.
+	 *
+	 * @param filenames - Files to split
+	 * @param options - `maxArgLength` and `chunkSize` limits
+	 * @returns The chunks, in input order (none for an empty list)
+	 */
+	static chunk(
+		filenames: readonly string[],
+		options: Pick<BaseHandlerOptions, "maxArgLength" | "chunkSize"> = {},
+	): string[][] {
+		const maxArgLength = options.maxArgLength ?? Filter.defaultMaxArgLength;
+		const chunkSize = options.chunkSize ?? Number.POSITIVE_INFINITY;
+
+		const chunks: string[][] = [];
+		let current: string[] = [];
+		let length = 0;
+		for (const file of filenames) {
+			const escaped = Filter.shellEscape([file]).length;
+			// The escaped file plus the separating space
+			if (current.length > 0 && (length + 1 + escaped > maxArgLength || current.length >= chunkSize)) {
+				chunks.push(current);
+				current = [];
+				length = 0;
+			}
+			length += (current.length > 0 ? 1 : 0) + escaped;
+			current.push(file);
+		}
+		if (current.length > 0) chunks.push(current);
+		return chunks;
+	}
+
+	/**
+	 * Build a command for a file list, split into several commands when the list is too long.
+	 *
+	 * @param filenames - Files to pass to the command
+	 * @param build - Builds one command from a shell-escaped file list
+	 * @param options - `maxArgLength` and `chunkSize` limits
+	 * @returns One command, or one per chunk when the list had to be split
+	 *
+	 * @example
+	 * ```typescript
+	 * const command = Filter.chunkCommand(files, (escaped) => `stylelint --fix ${escaped}`, { chunkSize: 50 });
+	 * ```
+	 */
+	static chunkCommand(
+		filenames: readonly string[],
+		build: (files: string) => string,
+		options: Pick<BaseHandlerOptions, "maxArgLength" | "chunkSize"> = {},
+	): string | string[] {
+		const commands = Filter.chunk(filenames, options).map((chunk) => build(Filter.shellEscape(chunk)));
+		return commands.length === 1 ? commands[0] : commands;
+	}
+
+	/**
+	 * Match a single (non-negated) glob against a file path.
+	 *
+	 * @param file - File path, absolute or relative to the working directory
+	 * @param pattern - Glob pattern
+	 * @returns `true` if the glob matches
+	 */
+	private static matchesGlob(file: string, pattern: string): boolean {
+		let matcher = matchers.get(pattern);
+		if (matcher === undefined) {
+			const glob = pattern.endsWith("/") ? `${pattern}**` : pattern;
+			matcher = picomatch(glob, { dot: true, basename: !glob.includes("/") });
+			matchers.set(pattern, matcher);
+		}
+
+		if (isAbsolute(pattern)) {
+			return matcher(resolve(file));
+		}
+
+		if (isAbsolute(file)) {
+			const relativePath = relative(process.cwd(), file);
+			if (!relativePath.startsWith("..")) return matcher(relativePath);
+		}
+
+		return matcher(file);
+	}
 }
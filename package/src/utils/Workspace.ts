@@ -8,7 +8,8 @@
  * in tests to clear state between runs.
  */
 
-import { dirname } from "node:path";
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve, sep } from "node:path";
 import { findWorkspaceRootSync, getWorkspacePackagesSync } from "workspaces-effect";
 
 /**
@@ -29,6 +30,10 @@ const UNRESOLVED = Symbol("unresolved");
 let cachedRoot: string | null | typeof UNRESOLVED = UNRESOLVED;
 let cachedPackages: WorkspacePackageInfo[] | null | typeof UNRESOLVED = UNRESOLVED;
 let cachedPaths: string[] | typeof UNRESOLVED = UNRESOLVED;
+let cachedDependents: Map<string, string[]> | typeof UNRESOLVED = UNRESOLVED;
+
+/** package.json fields that declare dependencies on other workspace packages. */
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const;
 
 /**
  * Get the workspace root directory.
@@ -96,6 +101,100 @@ export function isWorkspacePackagePath(filePath: string): boolean {
 	return packagePaths.includes(dir);
 }
 
+/**
+ * Find the leaf workspace package that contains a file.
+ *
+ * @remarks
+ * Nested packages are handled by picking the deepest matching package
+ * directory. Files at the workspace root belong to no leaf package.
+ *
+ * @param filePath - Absolute or cwd-relative path to the file
+ * @returns The owning package, or null if none contains the file
+ */
+export function findOwningPackage(filePath: string): WorkspacePackageInfo | null {
+	const absolute = resolve(filePath);
+	let owner: WorkspacePackageInfo | null = null;
+
+	for (const pkg of getWorkspacePackages() ?? []) {
+		if (!absolute.startsWith(pkg.path + sep)) continue;
+		if (owner === null || pkg.path.length > owner.path.length) {
+			owner = pkg;
+		}
+	}
+
+	return owner;
+}
+
+/**
+ * Build a map from package name to the names of packages that depend on it.
+ *
+ * @returns Reverse dependency map over leaf workspace packages
+ */
+function getDependentsMap(): Map<string, string[]> {
+	if (cachedDependents !== UNRESOLVED) return cachedDependents;
+
+	const packages = getWorkspacePackages() ?? [];
+	const names = new Set(packages.map((pkg) => pkg.name));
+	const dependents = new Map<string, string[]>();
+
+	for (const pkg of packages) {
+		const manifestPath = join(pkg.path, "package.json");
+		if (!existsSync(manifestPath)) continue;
+
+		let manifest: Record<string, unknown>;
+		try {
+			manifest = JSON.parse(readFileSync(manifestPath, "utf-8")) as Record<string, unknown>;
+		} catch {
+			// A malformed manifest contributes no dependency edges
+			continue;
+		}
+		const dependencies = new Set<string>();
+		for (const field of DEPENDENCY_FIELDS) {
+			const value = manifest[field];
+			if (value !== null && typeof value === "object") {
+				for (const name of Object.keys(value)) {
+					if (names.has(name) && name !== pkg.name) dependencies.add(name);
+				}
+			}
+		}
+
+		for (const name of dependencies) {
+			dependents.set(name, [...(dependents.get(name) ?? []), pkg.name]);
+		}
+	}
+
+	cachedDependents = dependents;
+	return cachedDependents;
+}
+
+/**
+ * Expand a set of workspace packages with everything that depends on them.
+ *
+ * @remarks
+ * Follows `dependencies`, `devDependencies`, `peerDependencies` and
+ * `optionalDependencies` between leaf workspace packages, transitively.
+ *
+ * @param packages - Packages to start from
+ * @returns The given packages plus their transitive workspace dependents
+ */
+export function getWorkspaceDependents(packages: readonly WorkspacePackageInfo[]): WorkspacePackageInfo[] {
+	const byName = new Map((getWorkspacePackages() ?? []).map((pkg) => [pkg.name, pkg]));
+	const dependents = getDependentsMap();
+	const result = new Map(packages.map((pkg) => [pkg.name, pkg]));
+	const queue = packages.map((pkg) => pkg.name);
+
+	for (let name = queue.shift(); name !== undefined; name = queue.shift()) {
+		for (const dependent of dependents.get(name) ?? []) {
+			const pkg = byName.get(dependent);
+			if (pkg === undefined || result.has(dependent)) continue;
+			result.set(dependent, pkg);
+			queue.push(dependent);
+		}
+	}
+
+	return [...result.values()];
+}
+
 /**
  * Clear all cached workspace data.
  *
@@ -106,4 +205,5 @@ export function resetWorkspaceCache(): void {
 	cachedRoot = UNRESOLVED;
 	cachedPackages = UNRESOLVED;
 	cachedPaths = UNRESOLVED;
+	cachedDependents = UNRESOLVED;
 }